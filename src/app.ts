@@ -1,32 +1,77 @@
 import cors from "cors";
 import express, { Application, Request, Response } from "express";
 import helmet from "helmet";
-import { rateLimitMiddleware } from "./middleware/rateLimit";
+import { Server } from "http";
+import {
+  authenticate,
+  refuseInvalidApiKey,
+  requireScope,
+} from "./middleware/auth";
+import { cachePolicy } from "./middleware/cacheControl";
+import { rateLimit, rateLimitCost } from "./middleware/rateLimit";
+import { getValidated, validateRequest } from "./middleware/validate";
+import { setupAdminRoutes } from "./routes/admin";
+import { setupUserRoutes } from "./routes/users";
+import {
+  cacheHotKeysQuerySchema,
+  cacheInvalidationQuerySchema,
+  cacheKeyListQuerySchema,
+  cacheKeyParamsSchema,
+  cacheWarmBodySchema,
+} from "./schemas/cache";
 import {
   clearCache,
+  connectCacheBackend,
+  decodeCacheKeyCursor,
   deleteFromCache,
   getCacheStats,
-  getFromCache,
-  setCache,
+  getHotKeys,
+  invalidateByPrefix,
+  invalidateByTag,
+  listCacheKeys,
   startCacheCleanup,
 } from "./services/cache";
-import { createUser, getUserById } from "./services/mockData";
-import { addJob, getQueueStats, startQueueCleanup } from "./services/queue";
+import { loadCacheSnapshot } from "./services/cacheSnapshot";
+import { getQueueStats, startQueueCleanup } from "./services/queue";
+import { DEFAULT_RATE_LIMIT_POLICY } from "./services/rateLimitPolicies";
 import {
   getRateLimitStats,
   startRateLimitCleanup,
 } from "./services/rateLimiter";
+import { getMostRequestedUserIds, warmUserCache } from "./services/userCache";
+import { getUserRepository } from "./services/userRepository";
+import {
+  CacheHotKeysQuery,
+  CacheInvalidationQuery,
+  CacheKeyListOptions,
+  CacheKeyListQuery,
+  CacheKeyParams,
+  CacheWarmBody,
+} from "./types";
 import { logError, logInfo } from "./utils/logger";
 import { ResponseHelper } from "./utils/response";
 
+// A warm-up request is charged one rate limit unit per this many IDs
+const WARM_USERS_PER_RATE_LIMIT_UNIT = 25;
+
+const getWarmSize = ({ ids, top }: CacheWarmBody): number =>
+  ids?.length ?? top ?? 1;
+
 const createApp = (): Application => {
   const app = express();
 
+  // Open the user store up front so durable stores recover before serving
+  getUserRepository();
+
+  // Start from the cache the previous process left behind, if any
+  loadCacheSnapshot();
+
   setupMiddlewares(app);
   setupRoutes(app);
   setupErrorHandling(app);
 
   // Start background tasks
+  connectCacheBackend();
   startCacheCleanup();
   startRateLimitCleanup();
   startQueueCleanup();
@@ -52,8 +97,21 @@ const setupMiddlewares = (app: Application): void => {
   app.use(express.json({ limit: "10mb" }));
   app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
-  // Rate limiting middleware (applied to all routes)
-  app.use(rateLimitMiddleware);
+  // Nothing is cached downstream unless its route opts in; this keeps
+  // admin and stats responses out of shared caches
+  app.use(cachePolicy("no-store"));
+
+  // Identifies the API key, if any, before rate limiting so that keyed
+  // clients are limited per key
+  app.use(authenticate);
+
+  // Rate limiting for every API route; routes add stricter policies on
+  // top, and /health is not limited
+  app.use("/api", rateLimit(DEFAULT_RATE_LIMIT_POLICY));
+
+  // Only after rate limiting, so that a client guessing keys is charged
+  // for each guess
+  app.use(refuseInvalidApiKey);
 
   // Request logging middleware
   app.use((req: Request, res: Response, next) => {
@@ -98,11 +156,39 @@ const setupRoutes = (app: Application): void => {
         message: "User Data API",
         version: "1.0.0",
         endpoints: [
+          "GET /api/users - List users with filters and pagination",
+          "GET /api/users?ids=1,2,3 - Batch get users by ID",
+          "POST /api/users/batch-get - Batch get users by ID",
+          "POST /api/users/bulk - Bulk create/update users",
+          "GET /api/users/search?q= - Full-text search by name and email",
+          "GET /api/users/export?format=csv|ndjson - Stream all users",
+          "POST /api/users/import - Import users from CSV or NDJSON",
           "GET /api/users/:id - Get user by ID",
+          "GET /api/users/by-email/:email - Get user by email",
           "POST /api/users - Create new user",
+          "PUT /api/users/:id - Replace user",
+          "PATCH /api/users/:id - Partially update user",
+          "DELETE /api/users/:id - Soft delete user",
+          "GET /api/users/:id/history - Get user version history",
+          "POST /api/users/:id/restore - Restore soft-deleted user",
+          "DELETE /api/admin/users/:id - Purge user and history",
+          "GET /api/admin/api-keys - List API keys",
+          "POST /api/admin/api-keys - Issue an API key with scopes",
+          "POST /api/admin/api-keys/:id/rotate - Replace an API key's secret",
+          "DELETE /api/admin/api-keys/:id - Revoke an API key",
+          "GET /api/admin/rate-limits/clients/:clientId - Get a client's rate limit usage",
+          "DELETE /api/admin/rate-limits/clients/:clientId - Reset a client's rate limits",
+          "DELETE /api/admin/rate-limits/clients - Reset rate limits for all clients",
+          "DELETE /api/admin/rate-limits/bans/:clientId - Lift a temporary ban",
+          "GET /api/admin/rate-limits/access-lists - List the allowlist and blocklist",
+          "POST /api/admin/rate-limits/access-lists/:list - Add to the allowlist or blocklist",
+          "DELETE /api/admin/rate-limits/access-lists/:list/:entry - Remove from a list",
           "GET /api/cache-status - Get cache statistics",
-          "DELETE /api/cache - Clear cache",
+          "DELETE /api/cache - Clear cache (?tag= or ?prefix= to invalidate matching entries)",
           "DELETE /api/cache/:key - Delete specific cache entry",
+          "GET /api/cache/keys - List cache keys with age, TTL, hits and size",
+          "GET /api/cache/hot-keys - Most hit and most missed cache keys",
+          "POST /api/cache/warm - Prefetch users into the cache by ID or popularity",
           "GET /api/rate-limit-status - Get rate limit statistics",
           "GET /api/queue-status - Get queue statistics",
         ],
@@ -111,111 +197,209 @@ const setupRoutes = (app: Application): void => {
     );
   });
 
+  // Cache, queue and rate limit internals are for administrators only
+  app.use(
+    [
+      "/api/cache",
+      "/api/cache-status",
+      "/api/queue-status",
+      "/api/rate-limit-status",
+    ],
+    requireScope("admin")
+  );
+
   // Cache status endpoint
   app.get("/api/cache-status", (_req: Request, res: Response) => {
     const stats = getCacheStats();
     ResponseHelper.success(res, stats, "Cache statistics retrieved");
   });
 
-  // Get user by ID endpoint with caching and async processing
-  app.get("/api/users/:id", async (req: Request, res: Response) => {
-    try {
-      const userId = parseInt(req.params["id"] || "0", 10);
+  // Per-key view of the cache, in key order
+  app.get(
+    "/api/cache/keys",
+    validateRequest({ query: cacheKeyListQuerySchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { cursor, ...query } = getValidated<CacheKeyListQuery>(
+          res,
+          "query"
+        );
+        const options: CacheKeyListOptions = query;
+
+        if (cursor) {
+          const after = decodeCacheKeyCursor(cursor);
+          if (after === null) {
+            ResponseHelper.validationError(res, [
+              {
+                location: "query",
+                field: "cursor",
+                rule: "format",
+                message: "cursor is invalid",
+              },
+            ]);
+            return;
+          }
+          options.after = after;
+        }
+
+        const { keys, total, nextCursor } = listCacheKeys(options);
 
-      if (isNaN(userId) || userId <= 0) {
-        ResponseHelper.badRequest(
+        ResponseHelper.paginated(
           res,
-          "Invalid user ID. Must be a positive integer."
+          keys,
+          {
+            limit: options.limit,
+            total,
+            hasMore: nextCursor !== null,
+            nextCursor,
+          },
+          "Cache keys retrieved"
         );
-        return;
+      } catch (error) {
+        logError("Error listing cache keys", error);
+        ResponseHelper.internalError(res, "Failed to list cache keys");
       }
+    }
+  );
 
-      const cacheKey = `user:${userId}`;
+  // Most hit and most missed keys over a sliding window
+  app.get(
+    "/api/cache/hot-keys",
+    validateRequest({ query: cacheHotKeysQuerySchema }),
+    (_req: Request, res: Response) => {
+      const { limit } = getValidated<CacheHotKeysQuery>(res, "query");
+      ResponseHelper.success(
+        res,
+        getHotKeys(limit),
+        "Hot cache keys retrieved"
+      );
+    }
+  );
 
-      // Try to get from cache first
-      const cachedUser = getFromCache(cacheKey);
-      if (cachedUser) {
-        logInfo(`User ${userId} retrieved from cache`);
-        ResponseHelper.success(res, cachedUser, "User retrieved from cache");
-        return;
-      }
+  // User CRUD endpoints
+  setupUserRoutes(app);
 
-      // If not in cache, process through queue
-      logInfo(`User ${userId} not in cache, processing through queue`);
+  // Administrative endpoints
+  setupAdminRoutes(app);
 
-      const user = await addJob(userId, async (job) => {
-        logInfo(
-          `Processing database request for user ${job.userId} (job: ${job.id})`
+  // Clear cache endpoint; `?tag=` or `?prefix=` narrows it to matching entries
+  app.delete(
+    "/api/cache",
+    validateRequest({ query: cacheInvalidationQuerySchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { tag, prefix } = getValidated<CacheInvalidationQuery>(
+          res,
+          "query"
         );
-        const userData = await getUserById(job.userId);
 
-        if (!userData) {
-          throw new Error(`User with ID ${job.userId} not found`);
+        if (tag !== undefined && prefix !== undefined) {
+          ResponseHelper.validationError(res, [
+            {
+              location: "query",
+              field: "query",
+              rule: "exclusive",
+              message: "Specify either tag or prefix, not both",
+            },
+          ]);
+          return;
         }
 
-        // Cache the result
-        setCache(cacheKey, userData);
-        logInfo(`User ${job.userId} cached for future requests`);
+        if (tag !== undefined) {
+          const invalidated = invalidateByTag(tag);
+          ResponseHelper.success(
+            res,
+            { tag, invalidated },
+            "Cache entries invalidated"
+          );
+          return;
+        }
 
-        return userData;
-      });
+        if (prefix !== undefined) {
+          const invalidated = invalidateByPrefix(prefix);
+          ResponseHelper.success(
+            res,
+            { prefix, invalidated },
+            "Cache entries invalidated"
+          );
+          return;
+        }
 
-      ResponseHelper.success(
-        res,
-        user,
-        "User retrieved from database via queue"
-      );
-    } catch (error) {
-      logError("Error retrieving user", error);
-      if (error instanceof Error && error.message.includes("not found")) {
-        ResponseHelper.notFound(res, error.message);
-      } else {
-        ResponseHelper.internalError(res, "Failed to retrieve user");
+        clearCache();
+        ResponseHelper.success(
+          res,
+          { message: "Cache cleared successfully" },
+          "Cache cleared"
+        );
+      } catch (error) {
+        logError("Error clearing cache", error);
+        ResponseHelper.internalError(res, "Failed to clear cache");
       }
     }
-  });
+  );
 
-  // Clear cache endpoint
-  app.delete("/api/cache", (_req: Request, res: Response) => {
-    try {
-      clearCache();
-      ResponseHelper.success(
-        res,
-        { message: "Cache cleared successfully" },
-        "Cache cleared"
-      );
-    } catch (error) {
-      logError("Error clearing cache", error);
-      ResponseHelper.internalError(res, "Failed to clear cache");
-    }
-  });
+  // Prefetch users into the cache, by ID or the `top` most requested
+  app.post(
+    "/api/cache/warm",
+    validateRequest({ body: cacheWarmBodySchema }),
+    rateLimitCost(
+      (_req, res) =>
+        getWarmSize(getValidated<CacheWarmBody>(res, "body")) /
+        WARM_USERS_PER_RATE_LIMIT_UNIT
+    ),
+    async (_req: Request, res: Response) => {
+      try {
+        const { ids, top } = getValidated<CacheWarmBody>(res, "body");
+
+        if ((ids === undefined) === (top === undefined)) {
+          ResponseHelper.validationError(res, [
+            {
+              location: "body",
+              field: "body",
+              rule: "exclusive",
+              message: "Specify either ids or top",
+            },
+          ]);
+          return;
+        }
 
-  // Delete specific cache entry endpoint
-  app.delete("/api/cache/:key", (req: Request, res: Response) => {
-    try {
-      const cacheKey = req.params["key"];
+        const report = ids
+          ? await warmUserCache(ids, "ids")
+          : await warmUserCache(getMostRequestedUserIds(top ?? 0), "top");
 
-      if (!cacheKey) {
-        ResponseHelper.badRequest(res, "Cache key is required");
-        return;
+        ResponseHelper.success(res, report, "Cache warmed");
+      } catch (error) {
+        logError("Error warming cache", error);
+        ResponseHelper.internalError(res, "Failed to warm cache");
       }
+    }
+  );
 
-      const deleted = deleteFromCache(cacheKey);
-
-      if (deleted) {
-        ResponseHelper.success(
-          res,
-          { message: `Cache entry '${cacheKey}' deleted successfully` },
-          "Cache entry deleted"
-        );
-      } else {
-        ResponseHelper.notFound(res, `Cache entry '${cacheKey}' not found`);
+  // Delete specific cache entry endpoint
+  app.delete(
+    "/api/cache/:key",
+    validateRequest({ params: cacheKeyParamsSchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { key: cacheKey } = getValidated<CacheKeyParams>(res, "params");
+
+        const deleted = deleteFromCache(cacheKey);
+
+        if (deleted) {
+          ResponseHelper.success(
+            res,
+            { message: `Cache entry '${cacheKey}' deleted successfully` },
+            "Cache entry deleted"
+          );
+        } else {
+          ResponseHelper.notFound(res, `Cache entry '${cacheKey}' not found`);
+        }
+      } catch (error) {
+        logError("Error deleting cache entry", error);
+        ResponseHelper.internalError(res, "Failed to delete cache entry");
       }
-    } catch (error) {
-      logError("Error deleting cache entry", error);
-      ResponseHelper.internalError(res, "Failed to delete cache entry");
     }
-  });
+  );
 
   // Rate limit status endpoint
   app.get("/api/rate-limit-status", (_req: Request, res: Response) => {
@@ -242,52 +426,6 @@ const setupRoutes = (app: Application): void => {
     }
   });
 
-  // Create user endpoint
-  app.post("/api/users", async (req: Request, res: Response) => {
-    try {
-      const { name, email } = req.body;
-
-      // Validate required fields
-      if (!name || !email) {
-        ResponseHelper.badRequest(res, "Name and email are required fields");
-        return;
-      }
-
-      // Validate email format
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(email)) {
-        ResponseHelper.badRequest(res, "Invalid email format");
-        return;
-      }
-
-      // Validate name length
-      if (name.length < 2 || name.length > 100) {
-        ResponseHelper.badRequest(
-          res,
-          "Name must be between 2 and 100 characters"
-        );
-        return;
-      }
-
-      logInfo(`Creating new user: ${name} (${email})`);
-
-      const newUser = await createUser({
-        name: name.trim(),
-        email: email.trim().toLowerCase(),
-      });
-
-      // Cache the new user
-      const cacheKey = `user:${newUser.id}`;
-      setCache(cacheKey, newUser);
-      logInfo(`New user ${newUser.id} cached`);
-
-      ResponseHelper.success(res, newUser, "User created successfully", 201);
-    } catch (error) {
-      logError("Error creating user", error);
-      ResponseHelper.internalError(res, "Failed to create user");
-    }
-  });
-
   // 404 handler for undefined routes
   app.use("*", (req: Request, res: Response) => {
     ResponseHelper.notFound(res, `Route ${req.originalUrl} not found`);
@@ -321,12 +459,11 @@ const setupErrorHandling = (app: Application): void => {
   });
 };
 
-const startServer = (app: Application, port: number): void => {
+const startServer = (app: Application, port: number): Server =>
   app.listen(port, () => {
     logInfo(`Server is running on port ${port}`);
     logInfo(`Health check available at http://localhost:${port}/health`);
     logInfo(`API documentation at http://localhost:${port}/api`);
   });
-};
 
 export { createApp, startServer };
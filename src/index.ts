@@ -1,4 +1,8 @@
+import { Server } from "http";
 import { createApp, startServer } from "./app";
+import { closeCacheBackend } from "./services/cache";
+import { saveCacheSnapshot } from "./services/cacheSnapshot";
+import { closeUserRepository } from "./services/userRepository";
 import { logError, logInfo } from "./utils/logger";
 
 // Get port from environment variable or use default
@@ -12,25 +16,77 @@ if (isNaN(PORT) || PORT < 1 || PORT > 65535) {
   process.exit(1);
 }
 
-// Graceful shutdown handling
-const gracefulShutdown = (signal: string): void => {
+// Longest a shutdown waits for in-flight requests before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 10 * 1000;
+
+let server: Server | null = null;
+let shuttingDown = false;
+
+// Stops accepting connections and resolves once in-flight requests finish
+const closeServer = (): Promise<void> =>
+  new Promise((resolve) => {
+    if (!server) {
+      resolve();
+      return;
+    }
+    server.close((error) => {
+      if (error) {
+        logError("Error closing HTTP server", error);
+      }
+      resolve();
+    });
+    // Keep-alive connections with no request in flight would hold it open
+    server.closeIdleConnections();
+  });
+
+// Graceful shutdown handling. Requests are drained first, so the cache
+// snapshot and the user store see every write that was accepted
+const gracefulShutdown = async (signal: string): Promise<void> => {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
   logInfo(`Received ${signal}. Starting graceful shutdown...`);
 
-  // Give ongoing requests time to complete
   setTimeout(() => {
-    logInfo("Graceful shutdown completed");
-    process.exit(0);
-  }, 5000);
+    logError("Graceful shutdown timed out; exiting");
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  await closeServer();
+
+  // Keep the cache for the next process to start from
+  try {
+    saveCacheSnapshot();
+  } catch (error) {
+    logError("Failed to save cache snapshot", error);
+  }
+
+  // Flush the user store so durable stores restart from a fresh snapshot
+  try {
+    await closeUserRepository();
+  } catch (error) {
+    logError("Failed to close user store", error);
+  }
+
+  try {
+    await closeCacheBackend();
+  } catch (error) {
+    logError("Failed to close shared cache", error);
+  }
+
+  logInfo("Graceful shutdown completed");
+  process.exit(0);
 };
 
 // Handle shutdown signals
-process.on("SIGTERM", () => gracefulShutdown("SIGTERM"));
-process.on("SIGINT", () => gracefulShutdown("SIGINT"));
+process.on("SIGTERM", () => void gracefulShutdown("SIGTERM"));
+process.on("SIGINT", () => void gracefulShutdown("SIGINT"));
 
 // Create and start the application
 try {
   const app = createApp();
-  startServer(app, PORT);
+  server = startServer(app, PORT);
 } catch (error) {
   logError("Failed to start server", error);
   process.exit(1);
@@ -0,0 +1,102 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { authenticateApiKey } from "../services/apiKeyStore";
+import { ApiKey, ApiKeyScope } from "../types";
+import { logError, logWarn } from "../utils/logger";
+import { ResponseHelper } from "../utils/response";
+
+// With "off", user routes also serve requests without a key; admin routes
+// always require one
+const API_KEYS_REQUIRED = process.env["API_KEYS_REQUIRED"] === "on";
+
+// `Authorization: Bearer <key>`, or `X-API-Key: <key>`
+const getPresentedKey = (req: Request): string | null => {
+  const authorization = req.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || null;
+  }
+  return req.get("X-API-Key")?.trim() || null;
+};
+
+// Whether the user routes refuse requests without a key
+export const areApiKeysRequired = (): boolean => API_KEYS_REQUIRED;
+
+// The authenticated key, or undefined for an anonymous request
+export const getApiKey = (res: Response): ApiKey | undefined =>
+  res.locals["apiKey"] as ApiKey | undefined;
+
+/**
+ * Identifies the request's API key, if it presents one. A request without
+ * a key continues anonymously. One with an unknown or revoked key is only
+ * marked here, so that it is rate limited by its address before
+ * `refuseInvalidApiKey` turns it away; guessed keys are charged and can
+ * get the client banned.
+ */
+export const authenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const key = getPresentedKey(req);
+  if (!key) {
+    next();
+    return;
+  }
+
+  try {
+    const apiKey = authenticateApiKey(key);
+    if (!apiKey) {
+      logWarn(`Invalid API key presented from IP: ${req.ip}`);
+      res.locals["invalidApiKey"] = true;
+      next();
+      return;
+    }
+
+    res.locals["apiKey"] = apiKey;
+    next();
+  } catch (error) {
+    logError("Error authenticating API key", error);
+    ResponseHelper.internalError(res, "Failed to authenticate request");
+  }
+};
+
+// Refuses a request whose key `authenticate` did not accept, rather than
+// downgrading it to anonymous
+export const refuseInvalidApiKey = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (res.locals["invalidApiKey"] === true) {
+    ResponseHelper.unauthorized(res, "Invalid or revoked API key");
+    return;
+  }
+  next();
+};
+
+/**
+ * Requires a key with the given scope; `admin` grants every scope. Keys are
+ * always required for `admin`, and for the user scopes only with
+ * `API_KEYS_REQUIRED=on`.
+ */
+export const requireScope =
+  (scope: ApiKeyScope): RequestHandler =>
+  (_req: Request, res: Response, next: NextFunction): void => {
+    const apiKey = getApiKey(res);
+
+    if (!apiKey) {
+      if (scope === "admin" || API_KEYS_REQUIRED) {
+        ResponseHelper.unauthorized(res);
+        return;
+      }
+      next();
+      return;
+    }
+
+    if (!apiKey.scopes.includes(scope) && !apiKey.scopes.includes("admin")) {
+      logWarn(`API key ${apiKey.id} lacks scope ${scope}`);
+      ResponseHelper.forbidden(res, `API key lacks the ${scope} scope`);
+      return;
+    }
+
+    next();
+  };
@@ -0,0 +1,113 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { CacheKeyInfo, CacheOutcome, CacheVisibility } from "../types";
+
+// Identifies this server's cache in Cache-Status (RFC 9211)
+const CACHE_STATUS_NAME = "user-data-api";
+
+const X_CACHE_VALUES: Record<CacheOutcome, string> = {
+  fresh: "fresh",
+  stale: "stale",
+  negative: "negative",
+  revalidated: "revalidated",
+  miss: "miss",
+  "stale-if-error": "stale",
+};
+
+const toSeconds = (ms: number): number => Math.floor(ms / 1000);
+
+/**
+ * Sets how downstream caches may keep the route's responses. Applied to
+ * every route as `no-store` first, so a route is only cached downstream
+ * if it opts in; routes serving cached data then call `setCacheHeaders`
+ * to give a lifetime. Without one, `public` and `private` responses must
+ * be revalidated (ETag) before reuse.
+ */
+export const cachePolicy =
+  (visibility: CacheVisibility): RequestHandler =>
+  (_req: Request, res: Response, next: NextFunction): void => {
+    res.locals["cacheVisibility"] = visibility;
+    res.set(
+      "Cache-Control",
+      visibility === "no-store" ? "no-store" : `${visibility}, no-cache`
+    );
+    next();
+  };
+
+const getVisibility = (res: Response): CacheVisibility =>
+  (res.locals["cacheVisibility"] as CacheVisibility | undefined) ?? "no-store";
+
+const buildCacheStatus = (
+  outcome: CacheOutcome,
+  entry: CacheKeyInfo | null
+): string => {
+  const params = [CACHE_STATUS_NAME];
+
+  switch (outcome) {
+    case "fresh":
+    case "stale":
+    case "negative":
+      params.push("hit");
+      break;
+    case "miss":
+      params.push("fwd=miss");
+      break;
+    case "revalidated":
+    case "stale-if-error":
+      params.push("fwd=stale");
+      break;
+  }
+
+  if (entry && (outcome === "miss" || outcome === "revalidated")) {
+    params.push("stored");
+  }
+  if (entry) {
+    // Negative once the entry is past its soft TTL
+    params.push(`ttl=${toSeconds(entry.ttl - entry.age)}`);
+  }
+  if (outcome === "stale") {
+    params.push("detail=stale-while-revalidate");
+  } else if (outcome === "negative" || outcome === "stale-if-error") {
+    params.push(`detail=${outcome}`);
+  }
+
+  return params.join("; ");
+};
+
+/**
+ * Reports how a response relates to the server-side cache (X-Cache and
+ * Cache-Status) and, for routes that allow downstream caching, how long
+ * it stays fresh. `entry` is the cache entry the response came from or
+ * was stored as, if any.
+ *
+ * max-age is the entry's whole TTL and Age how much of it has passed, so
+ * a downstream cache keeps the response for exactly the TTL remaining
+ * here. A stale entry also gets the rest of its stale-while-revalidate
+ * window.
+ */
+export const setCacheHeaders = (
+  res: Response,
+  outcome: CacheOutcome,
+  entry: CacheKeyInfo | null
+): void => {
+  res.set("X-Cache", X_CACHE_VALUES[outcome]);
+  res.set("Cache-Status", buildCacheStatus(outcome, entry));
+
+  if (!entry) {
+    return;
+  }
+  res.set("Age", String(toSeconds(entry.age)));
+
+  const visibility = getVisibility(res);
+  if (visibility === "no-store" || outcome === "stale-if-error") {
+    // A copy served only because the database failed is not to be reused
+    return;
+  }
+
+  const directives = [visibility, `max-age=${toSeconds(entry.ttl)}`];
+  if (entry.hardTtl > entry.ttl) {
+    directives.push(
+      `stale-while-revalidate=${toSeconds(entry.hardTtl - entry.ttl)}`
+    );
+  }
+  res.set("Cache-Control", directives.join(", "));
+};
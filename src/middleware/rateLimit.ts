@@ -1,39 +1,169 @@
-import { NextFunction, Request, Response } from "express";
-import { checkRateLimit } from "../services/rateLimiter";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  assertRateLimitPolicy,
+  checkRateLimit,
+  getClientBan,
+  getClientIdentifier,
+  getMaxRateLimitCost,
+  getRequestAccess,
+} from "../services/rateLimiter";
+import {
+  RateLimitBanRefusal,
+  RateLimitRefusal,
+  RateLimitWindow,
+} from "../types";
 import { logWarn } from "../utils/logger";
 import { ResponseHelper } from "../utils/response";
+import { getApiKey } from "./auth";
 
-export const rateLimitMiddleware = (
-  req: Request,
+// Also send the X-RateLimit-* headers this API used before the standard
+// RateLimit ones, for clients that still read them
+const LEGACY_RATE_LIMIT_HEADERS =
+  process.env["RATE_LIMIT_LEGACY_HEADERS"] === "on";
+
+// The policies the request has been charged against so far, with the
+// client's standing in each
+const getChargedPolicies = (res: Response): Map<string, RateLimitWindow[]> => {
+  let charged = res.locals["rateLimitPolicies"] as
+    Map<string, RateLimitWindow[]> | undefined;
+  if (!charged) {
+    charged = new Map();
+    res.locals["rateLimitPolicies"] = charged;
+  }
+  return charged;
+};
+
+// Each window of each policy is a policy of its own in the headers
+const getHeaderPolicyName = (policy: string, window: RateLimitWindow): string =>
+  `"${policy}-${window.name}"`;
+
+/**
+ * Describes every window of every policy charged so far in the RateLimit
+ * and RateLimit-Policy headers (IETF draft-ietf-httpapi-ratelimit-headers).
+ * The legacy headers can only describe one window: the one that refused
+ * the request, or else the one with the fewest units left.
+ */
+const setRateLimitHeaders = (
   res: Response,
-  next: NextFunction
+  charged: Map<string, RateLimitWindow[]>,
+  refusedBy?: RateLimitWindow
 ): void => {
-  try {
-    const { allowed, info } = checkRateLimit(req);
+  const policies: string[] = [];
+  const standings: string[] = [];
+  let tightest = refusedBy;
+
+  for (const [policy, windows] of charged) {
+    for (const window of windows) {
+      const name = getHeaderPolicyName(policy, window);
+      policies.push(`${name};q=${window.limit};w=${window.windowSeconds}`);
+      standings.push(`${name};r=${window.remaining};t=${window.resetSeconds}`);
+      if (!refusedBy && (!tightest || window.remaining < tightest.remaining)) {
+        tightest = window;
+      }
+    }
+  }
+
+  res.set({
+    "RateLimit-Policy": policies.join(", "),
+    RateLimit: standings.join(", "),
+  });
 
-    // Add rate limit headers to response
+  if (LEGACY_RATE_LIMIT_HEADERS && tightest) {
     res.set({
-      "X-RateLimit-Limit": info.limit.toString(),
-      "X-RateLimit-Remaining": info.remaining.toString(),
-      "X-RateLimit-Reset": info.resetTime.toString(),
+      "X-RateLimit-Limit": tightest.limit.toString(),
+      "X-RateLimit-Remaining": tightest.remaining.toString(),
+      "X-RateLimit-Reset": Math.ceil(
+        Date.now() / 1000 + tightest.resetSeconds
+      ).toString(),
     });
+  }
+};
+
+const applyRateLimit = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  policies: string[],
+  cost: number,
+  alreadyCharged: number
+): void => {
+  try {
+    const apiKey = getApiKey(res);
+    const clientId = getClientIdentifier(req, apiKey?.id);
+    // Blocks and bans never apply to admin keys, so that administrators
+    // cannot lock themselves out of the routes that lift them
+    const isAdmin = apiKey?.scopes.includes("admin") ?? false;
 
-    if (!allowed) {
-      logWarn(`Rate limit exceeded for IP: ${req.ip}`, {
-        limit: info.limit,
-        remaining: info.remaining,
-        resetTime: new Date(info.resetTime * 1000).toISOString(),
-      });
+    const access = getRequestAccess(req, apiKey?.id);
+    if (access === "allow") {
+      next();
+      return;
+    }
+    if (access === "block" && !isAdmin) {
+      logWarn(`Blocklisted client refused: ${clientId}`);
+      ResponseHelper.forbidden(res, "Client is blocked");
+      return;
+    }
 
+    const ban = isAdmin ? null : getClientBan(clientId);
+    if (ban) {
+      const refusal: RateLimitBanRefusal = {
+        bannedUntil: ban.until,
+        retryAfter: Math.max(
+          1,
+          Math.ceil((ban.until.getTime() - Date.now()) / 1000)
+        ),
+      };
       ResponseHelper.rateLimitExceeded(
         res,
-        `Rate limit exceeded. Try again after ${new Date(
-          info.resetTime * 1000
-        ).toISOString()}`
+        `Client is temporarily banned for repeatedly exceeding rate limits. Try again in ${refusal.retryAfter}s`,
+        refusal
       );
       return;
     }
 
+    const charged = getChargedPolicies(res);
+
+    for (const policy of policies) {
+      // Capped at a full bucket, so that a large batch empties the client's
+      // allowance rather than being refused however long it waits
+      const policyCost = Math.min(cost, getMaxRateLimitCost(clientId, policy));
+      const units = policyCost - alreadyCharged;
+      if (units <= 0) {
+        continue;
+      }
+
+      const decision = checkRateLimit(clientId, policy, units);
+      charged.set(policy, decision.windows);
+
+      const refusedBy = decision.windows.find(
+        (window) => window.name === decision.limitedBy
+      );
+      if (!decision.allowed && refusedBy) {
+        setRateLimitHeaders(res, charged, refusedBy);
+
+        const refusal: RateLimitRefusal = {
+          policy,
+          window: refusedBy.name,
+          limit: refusedBy.limit,
+          remaining: refusedBy.remaining,
+          cost: policyCost,
+          retryAfter: decision.retryAfterSeconds,
+        };
+        logWarn(`Rate limit exceeded for client: ${clientId}`, {
+          ...refusal,
+        });
+
+        ResponseHelper.rateLimitExceeded(
+          res,
+          `Rate limit exceeded: ${policy} policy, ${refusedBy.name} window. Try again in ${refusal.retryAfter}s`,
+          refusal
+        );
+        return;
+      }
+    }
+
+    setRateLimitHeaders(res, charged);
     next();
   } catch (error) {
     logWarn("Error in rate limit middleware", error);
@@ -41,3 +171,35 @@ export const rateLimitMiddleware = (
     next();
   }
 };
+
+/**
+ * Charges each request one unit against the named policy. Policies stack:
+ * a route with its own policy inside a group that has one is charged
+ * against both. Unknown policy names fail when the routes are set up.
+ */
+export const rateLimit = (policy: string): RequestHandler => {
+  assertRateLimitPolicy(policy);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    applyRateLimit(req, res, next, [policy], 1, 0);
+  };
+};
+
+/**
+ * Charges extra rate limit units for requests that do the work of several,
+ * against every policy the request was charged under. Those have already
+ * charged one unit, so only the remainder is taken here. No request is
+ * charged more than a full bucket. Goes after `validateRequest`, so that
+ * `getCost` can read the validated request.
+ */
+export const rateLimitCost =
+  (getCost: (req: Request, res: Response) => number): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const cost = Math.max(1, Math.ceil(getCost(req, res)));
+    const policies = Array.from(getChargedPolicies(res).keys());
+    if (cost === 1 || policies.length === 0) {
+      next();
+      return;
+    }
+    applyRateLimit(req, res, next, policies, cost, 1);
+  };
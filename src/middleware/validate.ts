@@ -0,0 +1,60 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { RequestLocation, ValidationError } from "../types";
+import { ResponseHelper } from "../utils/response";
+import { ObjectSchema, validate } from "../utils/validation";
+
+type RequestSchemas = Partial<Record<RequestLocation, ObjectSchema<unknown>>>;
+
+const LOCATIONS: RequestLocation[] = ["params", "query", "body"];
+
+/**
+ * Validates the request against the given schemas and responds with 400 and
+ * every violation if any part fails. Validated, coerced values are stored on
+ * `res.locals` and read back with `getValidated`.
+ */
+export const validateRequest = <
+  P = unknown,
+  Q = unknown,
+  B = unknown,
+>(schemas: {
+  params?: ObjectSchema<P>;
+  query?: ObjectSchema<Q>;
+  body?: ObjectSchema<B>;
+}): RequestHandler => {
+  const configured = schemas as RequestSchemas;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const errors: ValidationError[] = [];
+    const validated: Partial<Record<RequestLocation, unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = configured[location];
+      if (!schema) {
+        continue;
+      }
+
+      // express.json leaves the body undefined when no JSON was sent
+      const input = req[location] ?? {};
+      const result = validate(schema, input, location);
+
+      if (result.valid) {
+        validated[location] = result.value;
+      } else {
+        errors.push(...result.errors);
+      }
+    }
+
+    if (errors.length > 0) {
+      ResponseHelper.validationError(res, errors);
+      return;
+    }
+
+    res.locals["validated"] = validated;
+    next();
+  };
+};
+
+export const getValidated = <T>(res: Response, location: RequestLocation): T =>
+  (res.locals["validated"] as Partial<Record<RequestLocation, unknown>>)[
+    location
+  ] as T;
@@ -0,0 +1,317 @@
+import { Application, Request, Response } from "express";
+import { requireScope } from "../middleware/auth";
+import { getValidated, validateRequest } from "../middleware/validate";
+import { apiKeyBodySchema, apiKeyParamsSchema } from "../schemas/apiKey";
+import {
+  rateLimitAccessListBodySchema,
+  rateLimitAccessListEntryParamsSchema,
+  rateLimitAccessListParamsSchema,
+  rateLimitClientParamsSchema,
+} from "../schemas/rateLimit";
+import { userIdParamsSchema } from "../schemas/user";
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+} from "../services/apiKeyStore";
+import { deleteFromCache } from "../services/cache";
+import { isValidAccessListEntry } from "../services/rateLimitAccessList";
+import {
+  addRateLimitAccessListEntry,
+  clearRateLimitStore,
+  getClientUsage,
+  getRateLimitAccessLists,
+  liftRateLimitBan,
+  removeRateLimitAccessListEntry,
+  resetRateLimitClient,
+} from "../services/rateLimiter";
+import { getUserCacheKey } from "../services/userCache";
+import { getUserRepository } from "../services/userRepository";
+import {
+  ApiKeyBody,
+  ApiKeyParams,
+  RateLimitAccessListBody,
+  RateLimitAccessListEntryParams,
+  RateLimitAccessListParams,
+  RateLimitClientParams,
+  UserIdParams,
+} from "../types";
+import { logError, logInfo } from "../utils/logger";
+import { ResponseHelper } from "../utils/response";
+
+const setupAdminRoutes = (app: Application): void => {
+  app.use("/api/admin", requireScope("admin"));
+
+  // Purge user endpoint: permanently removes a user and its history
+  app.delete(
+    "/api/admin/users/:id",
+    validateRequest({ params: userIdParamsSchema }),
+    async (_req: Request, res: Response) => {
+      try {
+        const { id: userId } = getValidated<UserIdParams>(res, "params");
+
+        const purged = await getUserRepository().purgeUser(userId);
+        deleteFromCache(getUserCacheKey(userId));
+
+        if (!purged) {
+          ResponseHelper.notFound(res, `User with ID ${userId} not found`);
+          return;
+        }
+
+        logInfo(`User ${userId} purged with its history`);
+        ResponseHelper.success(
+          res,
+          { id: userId, purged: true },
+          "User purged successfully"
+        );
+      } catch (error) {
+        logError("Error purging user", error);
+        ResponseHelper.internalError(res, "Failed to purge user");
+      }
+    }
+  );
+
+  // List API keys; the keys themselves are never returned after issuing
+  app.get("/api/admin/api-keys", (_req: Request, res: Response) => {
+    try {
+      ResponseHelper.success(res, listApiKeys(), "API keys retrieved");
+    } catch (error) {
+      logError("Error listing API keys", error);
+      ResponseHelper.internalError(res, "Failed to list API keys");
+    }
+  });
+
+  // Issue an API key; the response is the only place the key appears
+  app.post(
+    "/api/admin/api-keys",
+    validateRequest({ body: apiKeyBodySchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { name, scopes } = getValidated<ApiKeyBody>(res, "body");
+        ResponseHelper.success(
+          res,
+          createApiKey(name, scopes),
+          "API key created",
+          201
+        );
+      } catch (error) {
+        logError("Error creating API key", error);
+        ResponseHelper.internalError(res, "Failed to create API key");
+      }
+    }
+  );
+
+  // Replace an API key's secret; the old key stops working at once
+  app.post(
+    "/api/admin/api-keys/:id/rotate",
+    validateRequest({ params: apiKeyParamsSchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { id } = getValidated<ApiKeyParams>(res, "params");
+        const issued = rotateApiKey(id);
+
+        if (!issued) {
+          ResponseHelper.notFound(res, `Active API key ${id} not found`);
+          return;
+        }
+
+        ResponseHelper.success(res, issued, "API key rotated");
+      } catch (error) {
+        logError("Error rotating API key", error);
+        ResponseHelper.internalError(res, "Failed to rotate API key");
+      }
+    }
+  );
+
+  // Revoke an API key; it stays listed with `revokedAt` set
+  app.delete(
+    "/api/admin/api-keys/:id",
+    validateRequest({ params: apiKeyParamsSchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { id } = getValidated<ApiKeyParams>(res, "params");
+        const apiKey = revokeApiKey(id);
+
+        if (!apiKey) {
+          ResponseHelper.notFound(res, `API key ${id} not found`);
+          return;
+        }
+
+        ResponseHelper.success(res, apiKey, "API key revoked");
+      } catch (error) {
+        logError("Error revoking API key", error);
+        ResponseHelper.internalError(res, "Failed to revoke API key");
+      }
+    }
+  );
+
+  // One client's standing in every rate limit policy, its access list and
+  // its ban; the client is an address, an IPv6 network or `key:<id>`
+  app.get(
+    "/api/admin/rate-limits/clients/:clientId",
+    validateRequest({ params: rateLimitClientParamsSchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { clientId } = getValidated<RateLimitClientParams>(res, "params");
+        ResponseHelper.success(
+          res,
+          getClientUsage(clientId),
+          "Rate limit usage retrieved"
+        );
+      } catch (error) {
+        logError("Error retrieving rate limit usage", error);
+        ResponseHelper.internalError(
+          res,
+          "Failed to retrieve rate limit usage"
+        );
+      }
+    }
+  );
+
+  // Give a client its whole allowance back and lift its ban
+  app.delete(
+    "/api/admin/rate-limits/clients/:clientId",
+    validateRequest({ params: rateLimitClientParamsSchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { clientId } = getValidated<RateLimitClientParams>(res, "params");
+        resetRateLimitClient(clientId);
+        ResponseHelper.success(
+          res,
+          getClientUsage(clientId),
+          "Rate limits reset for client"
+        );
+      } catch (error) {
+        logError("Error resetting rate limits for client", error);
+        ResponseHelper.internalError(res, "Failed to reset rate limits");
+      }
+    }
+  );
+
+  // Reset every client, lift every ban and zero the statistics
+  app.delete(
+    "/api/admin/rate-limits/clients",
+    (_req: Request, res: Response) => {
+      try {
+        clearRateLimitStore();
+        ResponseHelper.success(
+          res,
+          { cleared: true },
+          "Rate limits reset for all clients"
+        );
+      } catch (error) {
+        logError("Error clearing rate limit store", error);
+        ResponseHelper.internalError(res, "Failed to reset rate limits");
+      }
+    }
+  );
+
+  // Lift a temporary ban early
+  app.delete(
+    "/api/admin/rate-limits/bans/:clientId",
+    validateRequest({ params: rateLimitClientParamsSchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { clientId } = getValidated<RateLimitClientParams>(res, "params");
+        const ban = liftRateLimitBan(clientId);
+
+        if (!ban) {
+          ResponseHelper.notFound(res, `Client ${clientId} is not banned`);
+          return;
+        }
+
+        ResponseHelper.success(res, ban, "Ban lifted");
+      } catch (error) {
+        logError("Error lifting ban", error);
+        ResponseHelper.internalError(res, "Failed to lift ban");
+      }
+    }
+  );
+
+  app.get(
+    "/api/admin/rate-limits/access-lists",
+    (_req: Request, res: Response) => {
+      try {
+        ResponseHelper.success(
+          res,
+          getRateLimitAccessLists(),
+          "Access lists retrieved"
+        );
+      } catch (error) {
+        logError("Error listing access lists", error);
+        ResponseHelper.internalError(res, "Failed to list access lists");
+      }
+    }
+  );
+
+  // Add an address, CIDR range or `key:<id>` to the allowlist or blocklist
+  app.post(
+    "/api/admin/rate-limits/access-lists/:list",
+    validateRequest({
+      params: rateLimitAccessListParamsSchema,
+      body: rateLimitAccessListBodySchema,
+    }),
+    (_req: Request, res: Response) => {
+      try {
+        const { list } = getValidated<RateLimitAccessListParams>(res, "params");
+        const { entry } = getValidated<RateLimitAccessListBody>(res, "body");
+
+        if (!isValidAccessListEntry(entry)) {
+          ResponseHelper.validationError(res, [
+            {
+              location: "body",
+              field: "entry",
+              rule: "format",
+              message: "entry must be an IP address, a CIDR range or key:<id>",
+            },
+          ]);
+          return;
+        }
+
+        const added = addRateLimitAccessListEntry(list, entry);
+        ResponseHelper.success(
+          res,
+          getRateLimitAccessLists(),
+          added
+            ? "Access list entry added"
+            : "Access list entry already present",
+          added ? 201 : 200
+        );
+      } catch (error) {
+        logError("Error adding access list entry", error);
+        ResponseHelper.internalError(res, "Failed to add access list entry");
+      }
+    }
+  );
+
+  // CIDR ranges contain a slash, so the entry is URL-encoded
+  app.delete(
+    "/api/admin/rate-limits/access-lists/:list/:entry",
+    validateRequest({ params: rateLimitAccessListEntryParamsSchema }),
+    (_req: Request, res: Response) => {
+      try {
+        const { list, entry } = getValidated<RateLimitAccessListEntryParams>(
+          res,
+          "params"
+        );
+
+        if (!removeRateLimitAccessListEntry(list, entry)) {
+          ResponseHelper.notFound(res, `${entry} is not on the ${list}list`);
+          return;
+        }
+
+        ResponseHelper.success(
+          res,
+          getRateLimitAccessLists(),
+          "Access list entry removed"
+        );
+      } catch (error) {
+        logError("Error removing access list entry", error);
+        ResponseHelper.internalError(res, "Failed to remove access list entry");
+      }
+    }
+  );
+};
+
+export { setupAdminRoutes };
@@ -0,0 +1,910 @@
+import { once } from "events";
+import express, { Application, NextFunction, Request, Response } from "express";
+import {
+  areApiKeysRequired,
+  getApiKey,
+  requireScope,
+} from "../middleware/auth";
+import { cachePolicy, setCacheHeaders } from "../middleware/cacheControl";
+import { rateLimit, rateLimitCost } from "../middleware/rateLimit";
+import { getValidated, validateRequest } from "../middleware/validate";
+import {
+  batchGetUsersBodySchema,
+  bulkUsersBodySchema,
+  listUsersQuerySchema,
+  userEmailParamsSchema,
+  userExportQuerySchema,
+  userHistoryQuerySchema,
+  userIdParamsSchema,
+  userImportQuerySchema,
+  userInputSchema,
+  userPatchSchema,
+  userSearchQuerySchema,
+} from "../schemas/user";
+import {
+  deleteFromCache,
+  deleteManyFromCache,
+  getFromCache,
+  getStaleIfError,
+  inspectCacheKey,
+  lookupCache,
+  setCache,
+} from "../services/cache";
+import { applyBulkOperations } from "../services/bulkUsers";
+import { resolveClientIp } from "../services/clientAddress";
+import { addBatchJob } from "../services/queue";
+import {
+  cacheMissingUser,
+  cacheUser,
+  getUserCacheKey,
+  loadUser,
+  USER_CACHE_TAG,
+} from "../services/userCache";
+import { USER_WRITE_RATE_LIMIT_POLICY } from "../services/rateLimitPolicies";
+import { decodeCursor } from "../services/userQuery";
+import { decodeSearchCursor } from "../services/userSearch";
+import {
+  exportUsers,
+  ImportRow,
+  importUsers,
+  parseImport,
+} from "../services/userTransfer";
+import { getUserRepository } from "../services/userRepository";
+import {
+  BatchGetUsersBody,
+  BatchUserResult,
+  BulkUsersBody,
+  ListUsersQuery,
+  User,
+  UserActor,
+  UserEmailParams,
+  UserExportQuery,
+  UserHistoryQuery,
+  UserIdParams,
+  UserImportQuery,
+  UserInput,
+  UserListOptions,
+  UserSearchOptions,
+  UserSearchQuery,
+  UserTransferFormat,
+} from "../types";
+import {
+  buildIfMatchPrecondition,
+  getUserETag,
+  matchesIfNoneMatch,
+} from "../utils/etag";
+import { ConflictError, PreconditionFailedError } from "../utils/errors";
+import { logError, logInfo, logWarn } from "../utils/logger";
+import { ResponseHelper } from "../utils/response";
+
+// Bulk requests, imports and batch reads are charged one rate limit unit
+// per this many operations, rows or IDs
+const BULK_OPERATIONS_PER_RATE_LIMIT_UNIT = 25;
+
+const MAX_ACTOR_LENGTH = 100;
+
+const EXPORT_CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+};
+
+// Imports are sent as raw text; text/plain needs an explicit `?format=`
+const IMPORT_CONTENT_TYPES = [
+  "text/csv",
+  "application/x-ndjson",
+  "application/ndjson",
+  "text/plain",
+];
+
+// Who made a change, for the version history: the API key, else the
+// client address as resolved through trusted proxies. The caller can only
+// add who it acted for (X-Actor), which is recorded apart since nothing
+// checks it.
+const getActor = (req: Request, res: Response): UserActor => {
+  const apiKey = getApiKey(res);
+  const actor = apiKey ? `key:${apiKey.id}` : `ip:${resolveClientIp(req)}`;
+  const onBehalfOf = req.get("X-Actor")?.trim().slice(0, MAX_ACTOR_LENGTH);
+  return onBehalfOf ? { actor, onBehalfOf } : { actor };
+};
+
+// Maps a normalized email to the owning user's ID; the record itself lives
+// under the ID key so updates only have to refresh one entry
+const getUserEmailCacheKey = (email: string): string => `user-email:${email}`;
+
+const getImportFormat = (
+  req: Request,
+  requested: UserTransferFormat | undefined
+): UserTransferFormat | null => {
+  if (requested) {
+    return requested;
+  }
+  if (req.is("text/csv")) {
+    return "csv";
+  }
+  if (req.is(["application/x-ndjson", "application/ndjson"])) {
+    return "ndjson";
+  }
+  return null;
+};
+
+interface ParsedImportBody {
+  format: UserTransferFormat;
+  rows: ImportRow[];
+}
+
+// Parses an import body ahead of the handler, so that the request can be
+// charged by the rows it holds; read the result with `getParsedImport`
+const parseImportBody = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const query = getValidated<UserImportQuery>(res, "query");
+  const format = getImportFormat(req, query.format);
+
+  if (typeof req.body !== "string" || !format) {
+    ResponseHelper.error(
+      res,
+      "Send the import as text/csv or application/x-ndjson",
+      415
+    );
+    return;
+  }
+
+  const parsed = parseImport(req.body, format);
+  if ("errors" in parsed) {
+    ResponseHelper.validationError(res, parsed.errors);
+    return;
+  }
+
+  const body: ParsedImportBody = { format, rows: parsed.rows };
+  res.locals["parsedImport"] = body;
+  next();
+};
+
+const getParsedImport = (res: Response): ParsedImportBody =>
+  res.locals["parsedImport"] as ParsedImportBody;
+
+/**
+ * Sends a single user with its ETag. A GET whose If-None-Match already
+ * names the current version gets an empty 304 instead of the body.
+ */
+const sendUser = (
+  req: Request,
+  res: Response,
+  user: User,
+  message: string,
+  statusCode: number = 200
+): void => {
+  const etag = getUserETag(user);
+  res.set("ETag", etag);
+
+  if (
+    req.method === "GET" &&
+    matchesIfNoneMatch(req.get("If-None-Match"), etag)
+  ) {
+    ResponseHelper.notModified(res);
+    return;
+  }
+
+  ResponseHelper.success(res, user, message, statusCode);
+};
+
+/**
+ * Resolves a set of user IDs, serving cache hits first and fetching every
+ * miss with a single batched repository call through one queue job.
+ * Results keep the order of the (deduplicated) requested IDs.
+ */
+const fetchUsersByIds = async (
+  requestedIds: number[]
+): Promise<BatchUserResult[]> => {
+  const ids = Array.from(new Set(requestedIds));
+  const resolved = new Map<number, User>();
+  const misses: number[] = [];
+  let knownMissing = 0;
+
+  // Looked up together so shared-cache reads overlap
+  const lookups = await Promise.all(
+    ids.map((id) => lookupCache<User>(getUserCacheKey(id), () => loadUser(id)))
+  );
+  ids.forEach((id, index) => {
+    const lookup = lookups[index];
+    if (!lookup) {
+      misses.push(id);
+    } else if (lookup.negative) {
+      knownMissing++;
+    } else {
+      resolved.set(id, lookup.value);
+    }
+  });
+
+  logInfo(
+    `Batch lookup for ${ids.length} users: ${resolved.size} cached, ${knownMissing} known missing, ${misses.length} to fetch`
+  );
+
+  if (misses.length > 0) {
+    const fetched = await addBatchJob(misses, async (job) => {
+      logInfo(
+        `Processing batched database request for ${job.userIds.length} users (job: ${job.id})`
+      );
+      return getUserRepository().getUsersByIds(job.userIds);
+    });
+
+    for (const user of fetched) {
+      cacheUser(user);
+      resolved.set(user.id, user);
+    }
+    misses
+      .filter((id) => !resolved.has(id))
+      .forEach((id) => cacheMissingUser(id));
+  }
+
+  return ids.map((id): BatchUserResult => {
+    const user = resolved.get(id);
+    return user ? { id, found: true, user } : { id, found: false };
+  });
+};
+
+const sendBatchResults = (res: Response, results: BatchUserResult[]): void => {
+  const found = results.filter((result) => result.found).length;
+
+  ResponseHelper.success(
+    res,
+    {
+      results,
+      requested: results.length,
+      found,
+      notFound: results.length - found,
+    },
+    "Users retrieved"
+  );
+};
+
+const setupUserRoutes = (app: Application): void => {
+  const userRead = requireScope("users:read");
+  // Charged on top of the default policy for every route that writes
+  const userWriteRateLimit = rateLimit(USER_WRITE_RATE_LIMIT_POLICY);
+  const userWrite = requireScope("users:write");
+  // A shared cache would hand a record on to callers without a key, so it
+  // may only keep one while keys are optional
+  const userRecordCachePolicy = cachePolicy(
+    areApiKeysRequired() ? "private" : "public"
+  );
+
+  // List users endpoint with filtering, sorting and cursor pagination
+  app.get(
+    "/api/users",
+    userRead,
+    cachePolicy("private"),
+    validateRequest({ query: listUsersQuerySchema }),
+    rateLimitCost(
+      (_req, res) =>
+        (getValidated<ListUsersQuery>(res, "query").ids?.length ?? 1) /
+        BULK_OPERATIONS_PER_RATE_LIMIT_UNIT
+    ),
+    async (_req: Request, res: Response) => {
+      try {
+        const {
+          cursor: rawCursor,
+          ids,
+          ...query
+        } = getValidated<ListUsersQuery>(res, "query");
+
+        // `?ids=1,2,3` switches the endpoint into batch lookup mode
+        if (ids) {
+          sendBatchResults(res, await fetchUsersByIds(ids));
+          return;
+        }
+
+        const options: UserListOptions = query;
+
+        if (rawCursor) {
+          const cursor = decodeCursor(rawCursor);
+          // A cursor only makes sense for the sort it was issued under
+          if (
+            !cursor ||
+            cursor.sortBy !== query.sortBy ||
+            cursor.order !== query.order
+          ) {
+            ResponseHelper.validationError(res, [
+              {
+                location: "query",
+                field: "cursor",
+                rule: "format",
+                message: "cursor is invalid or was issued for another sort",
+              },
+            ]);
+            return;
+          }
+          options.cursor = cursor;
+        }
+
+        const { users, total, nextCursor } =
+          await getUserRepository().listUsers(options);
+
+        ResponseHelper.paginated(
+          res,
+          users,
+          {
+            limit: options.limit,
+            total,
+            hasMore: nextCursor !== null,
+            nextCursor,
+          },
+          "Users retrieved"
+        );
+      } catch (error) {
+        logError("Error listing users", error);
+        ResponseHelper.internalError(res, "Failed to list users");
+      }
+    }
+  );
+
+  // Batch get endpoint for ID lists too long for a query string
+  app.post(
+    "/api/users/batch-get",
+    userRead,
+    validateRequest({ body: batchGetUsersBodySchema }),
+    rateLimitCost(
+      (_req, res) =>
+        getValidated<BatchGetUsersBody>(res, "body").ids.length /
+        BULK_OPERATIONS_PER_RATE_LIMIT_UNIT
+    ),
+    async (_req: Request, res: Response) => {
+      try {
+        const { ids } = getValidated<BatchGetUsersBody>(res, "body");
+        sendBatchResults(res, await fetchUsersByIds(ids));
+      } catch (error) {
+        logError("Error retrieving users in batch", error);
+        ResponseHelper.internalError(res, "Failed to retrieve users");
+      }
+    }
+  );
+
+  // Bulk create/update endpoint with per-item results
+  app.post(
+    "/api/users/bulk",
+    userWrite,
+    userWriteRateLimit,
+    validateRequest({ body: bulkUsersBodySchema }),
+    rateLimitCost(
+      (_req, res) =>
+        getValidated<BulkUsersBody>(res, "body").operations.length /
+        BULK_OPERATIONS_PER_RATE_LIMIT_UNIT
+    ),
+    async (req: Request, res: Response) => {
+      try {
+        const { operations, mode } = getValidated<BulkUsersBody>(res, "body");
+        const result = await applyBulkOperations(
+          operations,
+          mode,
+          getActor(req, res)
+        );
+
+        // Mirror the outcome in the cache: applied records are re-cached and
+        // anything that was rolled back is evicted
+        for (const item of result.results) {
+          if (item.user) {
+            cacheUser(item.user);
+          } else if (item.status === "rolled_back" && item.id !== undefined) {
+            deleteFromCache(getUserCacheKey(item.id));
+          }
+        }
+
+        if (!result.applied) {
+          ResponseHelper.error(
+            res,
+            "Bulk request was not applied",
+            result.summary.invalid > 0 ? 400 : 409,
+            result
+          );
+          return;
+        }
+
+        ResponseHelper.success(res, result, "Bulk request processed");
+      } catch (error) {
+        logError("Error processing bulk request", error);
+        ResponseHelper.internalError(res, "Failed to process bulk request");
+      }
+    }
+  );
+
+  // Stream every user as CSV or NDJSON, written page by page as it is read
+  app.get(
+    "/api/users/export",
+    userRead,
+    validateRequest({ query: userExportQuerySchema }),
+    async (_req: Request, res: Response) => {
+      const { format } = getValidated<UserExportQuery>(res, "query");
+
+      // Headers go out with the first chunk, so a failure before then can
+      // still be answered with a normal error response
+      const startStream = (): void => {
+        if (!res.headersSent) {
+          res.status(200).set({
+            "Content-Type": EXPORT_CONTENT_TYPES[format],
+            "Content-Disposition": `attachment; filename="users.${format}"`,
+          });
+        }
+      };
+
+      try {
+        for await (const chunk of exportUsers(format)) {
+          if (res.destroyed) {
+            logInfo("User export aborted by client");
+            return;
+          }
+          startStream();
+          // Respect backpressure so a slow client does not make us buffer
+          // the whole export
+          if (!res.write(chunk)) {
+            await Promise.race([once(res, "drain"), once(res, "close")]);
+          }
+        }
+        startStream();
+        res.end();
+      } catch (error) {
+        logError("Error exporting users", error);
+        if (res.headersSent) {
+          // Too late for an error response; cut the stream so the client
+          // can tell the export is incomplete
+          res.destroy();
+        } else {
+          ResponseHelper.internalError(res, "Failed to export users");
+        }
+      }
+    }
+  );
+
+  // Import users from CSV or NDJSON with a per-row report
+  app.post(
+    "/api/users/import",
+    userWrite,
+    userWriteRateLimit,
+    express.text({ type: IMPORT_CONTENT_TYPES, limit: "10mb" }),
+    validateRequest({ query: userImportQuerySchema }),
+    parseImportBody,
+    rateLimitCost(
+      (_req, res) =>
+        getParsedImport(res).rows.length / BULK_OPERATIONS_PER_RATE_LIMIT_UNIT
+    ),
+    async (req: Request, res: Response) => {
+      try {
+        const query = getValidated<UserImportQuery>(res, "query");
+        const { format, rows } = getParsedImport(res);
+
+        const report = await importUsers(
+          rows,
+          format,
+          query.dryRun,
+          getActor(req, res)
+        );
+
+        // Earlier lookups may have cached the new IDs as missing
+        deleteManyFromCache(
+          report.rows.flatMap((row) =>
+            row.id === undefined ? [] : [getUserCacheKey(row.id)]
+          )
+        );
+
+        ResponseHelper.success(
+          res,
+          report,
+          query.dryRun ? "Import validated (dry run)" : "Import processed"
+        );
+      } catch (error) {
+        logError("Error importing users", error);
+        ResponseHelper.internalError(res, "Failed to import users");
+      }
+    }
+  );
+
+  // Full-text search over names and emails, ranked by relevance
+  app.get(
+    "/api/users/search",
+    userRead,
+    cachePolicy("private"),
+    validateRequest({ query: userSearchQuerySchema }),
+    async (_req: Request, res: Response) => {
+      try {
+        const {
+          q,
+          limit,
+          cursor: rawCursor,
+        } = getValidated<UserSearchQuery>(res, "query");
+        const options: UserSearchOptions = { query: q, limit };
+
+        if (rawCursor) {
+          const cursor = decodeSearchCursor(rawCursor);
+          // Scores are only comparable within the query that produced them
+          if (!cursor || cursor.query !== q) {
+            ResponseHelper.validationError(res, [
+              {
+                location: "query",
+                field: "cursor",
+                rule: "format",
+                message: "cursor is invalid or was issued for another query",
+              },
+            ]);
+            return;
+          }
+          options.cursor = cursor;
+        }
+
+        const { hits, total, nextCursor } =
+          await getUserRepository().searchUsers(options);
+
+        ResponseHelper.paginated(
+          res,
+          hits,
+          { limit, total, hasMore: nextCursor !== null, nextCursor },
+          "Search results retrieved"
+        );
+      } catch (error) {
+        logError("Error searching users", error);
+        ResponseHelper.internalError(res, "Failed to search users");
+      }
+    }
+  );
+
+  // Get user by email endpoint, served from the store's email index
+  app.get(
+    "/api/users/by-email/:email",
+    userRead,
+    userRecordCachePolicy,
+    validateRequest({ params: userEmailParamsSchema }),
+    async (req: Request, res: Response) => {
+      try {
+        const { email } = getValidated<UserEmailParams>(res, "params");
+        const emailCacheKey = getUserEmailCacheKey(email);
+
+        // The email mapping can outlive an email change, so only trust a
+        // cached record whose email still matches
+        const cachedId = await getFromCache<number>(emailCacheKey);
+        if (cachedId !== null) {
+          const userCacheKey = getUserCacheKey(cachedId);
+          const cached = await lookupCache<User>(userCacheKey, () =>
+            loadUser(cachedId)
+          );
+          if (cached && !cached.negative && cached.value.email === email) {
+            logInfo(`User ${cachedId} retrieved from cache by email`);
+            setCacheHeaders(
+              res,
+              cached.freshness,
+              inspectCacheKey(userCacheKey)
+            );
+            sendUser(req, res, cached.value, "User retrieved from cache");
+            return;
+          }
+          deleteFromCache(emailCacheKey);
+        }
+
+        const user = await getUserRepository().getUserByEmail(email);
+
+        if (!user) {
+          ResponseHelper.notFound(res, `User with email ${email} not found`);
+          return;
+        }
+
+        cacheUser(user);
+        setCache(emailCacheKey, user.id, { tags: [USER_CACHE_TAG] });
+        logInfo(`User ${user.id} cached for email lookups`);
+
+        setCacheHeaders(res, "miss", inspectCacheKey(getUserCacheKey(user.id)));
+        sendUser(req, res, user, "User retrieved from database");
+      } catch (error) {
+        logError("Error retrieving user by email", error);
+        ResponseHelper.internalError(res, "Failed to retrieve user");
+      }
+    }
+  );
+
+  // Get user by ID endpoint with caching and async processing
+  app.get(
+    "/api/users/:id",
+    userRead,
+    userRecordCachePolicy,
+    validateRequest({ params: userIdParamsSchema }),
+    async (req: Request, res: Response) => {
+      try {
+        const { id: userId } = getValidated<UserIdParams>(res, "params");
+        const cacheKey = getUserCacheKey(userId);
+
+        // Try to get from cache first; a stale copy is served as-is while
+        // it is refreshed in the background
+        const cached = await lookupCache<User>(cacheKey, () =>
+          loadUser(userId)
+        );
+        if (cached?.negative) {
+          logInfo(`User ${userId} known missing from cache`);
+          setCacheHeaders(res, "negative", inspectCacheKey(cacheKey));
+          ResponseHelper.notFound(res, `User with ID ${userId} not found`);
+          return;
+        }
+        if (cached) {
+          logInfo(`User ${userId} retrieved from cache (${cached.freshness})`);
+          setCacheHeaders(res, cached.freshness, inspectCacheKey(cacheKey));
+          sendUser(
+            req,
+            res,
+            cached.value,
+            cached.freshness === "fresh"
+              ? "User retrieved from cache"
+              : "User retrieved from cache (stale, refreshing)"
+          );
+          return;
+        }
+
+        // If not in cache, process through queue
+        logInfo(`User ${userId} not in cache, processing through queue`);
+
+        // An expired copy, if any, is the fallback should the database fail
+        const expiredCopy = getStaleIfError<User>(cacheKey);
+
+        let user: User;
+        try {
+          user = await loadUser(userId);
+        } catch (error) {
+          const notFound =
+            error instanceof Error && error.message.includes("not found");
+          if (notFound) {
+            // Reported with the tombstone the lookup just stored
+            setCacheHeaders(res, "miss", inspectCacheKey(cacheKey));
+          }
+          if (!expiredCopy || notFound) {
+            throw error;
+          }
+          logWarn(`Serving stale copy of user ${userId} after fetch failed`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          setCacheHeaders(res, "stale-if-error", inspectCacheKey(cacheKey));
+          sendUser(
+            req,
+            res,
+            expiredCopy,
+            "User retrieved from cache (stale, database unavailable)"
+          );
+          return;
+        }
+
+        setCacheHeaders(
+          res,
+          expiredCopy ? "revalidated" : "miss",
+          inspectCacheKey(cacheKey)
+        );
+        sendUser(req, res, user, "User retrieved from database via queue");
+      } catch (error) {
+        logError("Error retrieving user", error);
+        if (error instanceof Error && error.message.includes("not found")) {
+          ResponseHelper.notFound(res, error.message);
+        } else {
+          ResponseHelper.internalError(res, "Failed to retrieve user");
+        }
+      }
+    }
+  );
+
+  // Create user endpoint
+  app.post(
+    "/api/users",
+    userWrite,
+    userWriteRateLimit,
+    validateRequest({ body: userInputSchema }),
+    async (req: Request, res: Response) => {
+      try {
+        const input = getValidated<UserInput>(res, "body");
+
+        logInfo(`Creating new user: ${input.name} (${input.email})`);
+
+        const newUser = await getUserRepository().createUser(
+          input,
+          getActor(req, res)
+        );
+
+        // Cache the new user
+        cacheUser(newUser);
+        logInfo(`New user ${newUser.id} cached`);
+
+        sendUser(req, res, newUser, "User created successfully", 201);
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          ResponseHelper.conflict(res, error.message);
+          return;
+        }
+        logError("Error creating user", error);
+        ResponseHelper.internalError(res, "Failed to create user");
+      }
+    }
+  );
+
+  // User version history endpoint; `?at=` returns the record as it was then
+  app.get(
+    "/api/users/:id/history",
+    userRead,
+    cachePolicy("private"),
+    validateRequest({
+      params: userIdParamsSchema,
+      query: userHistoryQuerySchema,
+    }),
+    async (_req: Request, res: Response) => {
+      try {
+        const { id: userId } = getValidated<UserIdParams>(res, "params");
+        const { at } = getValidated<UserHistoryQuery>(res, "query");
+
+        const versions = await getUserRepository().getUserHistory(userId);
+
+        if (versions.length === 0) {
+          ResponseHelper.notFound(res, `User with ID ${userId} not found`);
+          return;
+        }
+
+        if (!at) {
+          ResponseHelper.success(
+            res,
+            { userId, versions },
+            "User history retrieved"
+          );
+          return;
+        }
+
+        const version = versions
+          .filter((entry) => entry.timestamp.getTime() <= at.getTime())
+          .pop();
+
+        if (!version) {
+          ResponseHelper.notFound(
+            res,
+            `User with ID ${userId} did not exist at ${at.toISOString()}`
+          );
+          return;
+        }
+
+        ResponseHelper.success(
+          res,
+          version,
+          `User version as of ${at.toISOString()}`
+        );
+      } catch (error) {
+        logError("Error retrieving user history", error);
+        ResponseHelper.internalError(res, "Failed to retrieve user history");
+      }
+    }
+  );
+
+  // Restore a soft-deleted user endpoint
+  app.post(
+    "/api/users/:id/restore",
+    userWrite,
+    userWriteRateLimit,
+    validateRequest({ params: userIdParamsSchema }),
+    async (req: Request, res: Response) => {
+      try {
+        const { id: userId } = getValidated<UserIdParams>(res, "params");
+
+        const user = await getUserRepository().restoreUser(
+          userId,
+          getActor(req, res)
+        );
+
+        if (!user) {
+          ResponseHelper.notFound(res, `User with ID ${userId} not found`);
+          return;
+        }
+
+        cacheUser(user);
+        logInfo(`User ${userId} restored and re-cached`);
+
+        sendUser(req, res, user, "User restored successfully");
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          ResponseHelper.conflict(res, error.message);
+          return;
+        }
+        logError("Error restoring user", error);
+        ResponseHelper.internalError(res, "Failed to restore user");
+      }
+    }
+  );
+
+  // Replace user endpoint (all fields required)
+  app.put(
+    "/api/users/:id",
+    userWrite,
+    userWriteRateLimit,
+    validateRequest({ params: userIdParamsSchema, body: userInputSchema }),
+    handleUserUpdate
+  );
+
+  // Partially update user endpoint
+  app.patch(
+    "/api/users/:id",
+    userWrite,
+    userWriteRateLimit,
+    validateRequest({ params: userIdParamsSchema, body: userPatchSchema }),
+    handleUserUpdate
+  );
+
+  // Soft delete user endpoint; the record stays restorable until purged
+  app.delete(
+    "/api/users/:id",
+    userWrite,
+    userWriteRateLimit,
+    validateRequest({ params: userIdParamsSchema }),
+    async (req: Request, res: Response) => {
+      try {
+        const { id: userId } = getValidated<UserIdParams>(res, "params");
+
+        const deleted = await getUserRepository().deleteUser(
+          userId,
+          getActor(req, res),
+          buildIfMatchPrecondition(req.get("If-Match"))
+        );
+
+        // Drop the cached copy whether or not the user existed, so a stale
+        // entry can never outlive the record it mirrors
+        deleteFromCache(getUserCacheKey(userId));
+
+        if (!deleted) {
+          ResponseHelper.notFound(res, `User with ID ${userId} not found`);
+          return;
+        }
+
+        logInfo(`User ${userId} deleted and evicted from cache`);
+        ResponseHelper.success(
+          res,
+          { id: userId, deleted: true },
+          "User deleted successfully"
+        );
+      } catch (error) {
+        if (error instanceof PreconditionFailedError) {
+          ResponseHelper.preconditionFailed(res, error.message);
+          return;
+        }
+        logError("Error deleting user", error);
+        ResponseHelper.internalError(res, "Failed to delete user");
+      }
+    }
+  );
+};
+
+const handleUserUpdate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: userId } = getValidated<UserIdParams>(res, "params");
+    const input = getValidated<Partial<UserInput>>(res, "body");
+    const cacheKey = getUserCacheKey(userId);
+
+    logInfo(`Updating user ${userId}`, input);
+
+    const updatedUser = await getUserRepository().updateUser(
+      userId,
+      input,
+      getActor(req, res),
+      buildIfMatchPrecondition(req.get("If-Match"))
+    );
+
+    if (!updatedUser) {
+      deleteFromCache(cacheKey);
+      ResponseHelper.notFound(res, `User with ID ${userId} not found`);
+      return;
+    }
+
+    // Refresh the cached copy so subsequent reads see the new record
+    cacheUser(updatedUser);
+    logInfo(`User ${userId} updated and re-cached`);
+
+    sendUser(req, res, updatedUser, "User updated successfully");
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      ResponseHelper.conflict(res, error.message);
+      return;
+    }
+    if (error instanceof PreconditionFailedError) {
+      ResponseHelper.preconditionFailed(res, error.message);
+      return;
+    }
+    logError("Error updating user", error);
+    ResponseHelper.internalError(res, "Failed to update user");
+  }
+};
+
+export { setupUserRoutes };
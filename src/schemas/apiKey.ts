@@ -0,0 +1,29 @@
+import { ApiKeyBody, ApiKeyParams } from "../types";
+import { ObjectSchema } from "../utils/validation";
+
+export const API_KEY_SCOPES = ["users:read", "users:write", "admin"] as const;
+
+export const apiKeyBodySchema: ObjectSchema<ApiKeyBody> = {
+  fields: {
+    name: {
+      type: "string",
+      required: true,
+      trim: true,
+      minLength: 1,
+      maxLength: 100,
+    },
+    scopes: {
+      type: "array",
+      required: true,
+      items: { type: "string", enum: API_KEY_SCOPES },
+      minItems: 1,
+      maxItems: API_KEY_SCOPES.length,
+    },
+  },
+};
+
+export const apiKeyParamsSchema: ObjectSchema<ApiKeyParams> = {
+  fields: {
+    id: { type: "string", required: true, minLength: 1, maxLength: 64 },
+  },
+};
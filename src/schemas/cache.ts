@@ -0,0 +1,63 @@
+import {
+  CacheHotKeysQuery,
+  CacheInvalidationQuery,
+  CacheKeyListQuery,
+  CacheKeyParams,
+  CacheWarmBody,
+} from "../types";
+import { ObjectSchema } from "../utils/validation";
+
+export const MAX_CACHE_WARM_USERS = 1000;
+export const MAX_CACHE_KEYS_PAGE_LIMIT = 100;
+
+export const cacheKeyParamsSchema: ObjectSchema<CacheKeyParams> = {
+  fields: {
+    key: { type: "string", required: true, minLength: 1, maxLength: 256 },
+  },
+};
+
+// With neither field the whole cache is cleared
+export const cacheInvalidationQuerySchema: ObjectSchema<CacheInvalidationQuery> =
+  {
+    fields: {
+      tag: { type: "string", minLength: 1, maxLength: 256 },
+      prefix: { type: "string", minLength: 1, maxLength: 256 },
+    },
+  };
+
+// Exactly one of the two fields is expected; the route checks that
+export const cacheWarmBodySchema: ObjectSchema<CacheWarmBody> = {
+  fields: {
+    ids: {
+      type: "array",
+      items: { type: "integer", min: 1 },
+      minItems: 1,
+      maxItems: MAX_CACHE_WARM_USERS,
+    },
+    top: { type: "integer", min: 1, max: MAX_CACHE_WARM_USERS },
+  },
+};
+
+export const cacheKeyListQuerySchema: ObjectSchema<CacheKeyListQuery> = {
+  fields: {
+    limit: {
+      type: "integer",
+      min: 1,
+      max: MAX_CACHE_KEYS_PAGE_LIMIT,
+      default: 20,
+    },
+    cursor: { type: "string" },
+    prefix: { type: "string", minLength: 1, maxLength: 256 },
+  },
+};
+
+export const cacheHotKeysQuerySchema: ObjectSchema<CacheHotKeysQuery> = {
+  fields: {
+    limit: {
+      type: "integer",
+      min: 1,
+      max: MAX_CACHE_KEYS_PAGE_LIMIT,
+      default: 10,
+    },
+  },
+};
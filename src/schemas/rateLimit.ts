@@ -0,0 +1,51 @@
+import {
+  RateLimitAccessListBody,
+  RateLimitAccessListEntryParams,
+  RateLimitAccessListParams,
+  RateLimitClientParams,
+} from "../types";
+import { ObjectSchema } from "../utils/validation";
+
+// Addresses, CIDR ranges, IPv6 networks and `key:<id>`
+const clientIdRule = {
+  type: "string",
+  required: true,
+  trim: true,
+  minLength: 1,
+  maxLength: 200,
+} as const;
+
+const accessListRule = {
+  type: "string",
+  required: true,
+  enum: ["allow", "block"],
+} as const;
+
+export const rateLimitClientParamsSchema: ObjectSchema<RateLimitClientParams> =
+  {
+    fields: {
+      clientId: clientIdRule,
+    },
+  };
+
+export const rateLimitAccessListParamsSchema: ObjectSchema<RateLimitAccessListParams> =
+  {
+    fields: {
+      list: accessListRule,
+    },
+  };
+
+export const rateLimitAccessListEntryParamsSchema: ObjectSchema<RateLimitAccessListEntryParams> =
+  {
+    fields: {
+      list: accessListRule,
+      entry: clientIdRule,
+    },
+  };
+
+export const rateLimitAccessListBodySchema: ObjectSchema<RateLimitAccessListBody> =
+  {
+    fields: {
+      entry: clientIdRule,
+    },
+  };
@@ -0,0 +1,168 @@
+import {
+  BatchGetUsersBody,
+  BulkCreateOperation,
+  BulkUpdateOperation,
+  BulkUsersBody,
+  ListUsersQuery,
+  User,
+  UserEmailParams,
+  UserExportQuery,
+  UserHistoryQuery,
+  UserIdParams,
+  UserImportQuery,
+  UserInput,
+  UserSearchQuery,
+} from "../types";
+import { ObjectSchema, partialSchema, pickFields } from "../utils/validation";
+
+export const MAX_PAGE_LIMIT = 100;
+export const MAX_BATCH_SIZE = 100;
+export const MAX_BULK_OPERATIONS = 500;
+
+// Canonical shape of a stored user; request schemas are derived from it
+export const userSchema: ObjectSchema<User> = {
+  fields: {
+    id: { type: "integer", required: true, min: 1 },
+    name: {
+      type: "string",
+      required: true,
+      trim: true,
+      minLength: 2,
+      maxLength: 100,
+    },
+    email: {
+      type: "string",
+      required: true,
+      trim: true,
+      lowercase: true,
+      maxLength: 254,
+      format: "email",
+    },
+    version: { type: "integer", required: true, min: 1 },
+    createdAt: { type: "date" },
+    updatedAt: { type: "date" },
+    deletedAt: { type: "date" },
+  },
+};
+
+export const userIdParamsSchema: ObjectSchema<UserIdParams> = pickFields(
+  userSchema,
+  ["id"]
+);
+
+export const userHistoryQuerySchema: ObjectSchema<UserHistoryQuery> = {
+  fields: {
+    at: { type: "date" },
+  },
+};
+
+export const userEmailParamsSchema: ObjectSchema<UserEmailParams> = pickFields(
+  userSchema,
+  ["email"]
+);
+
+// POST and PUT both take a complete set of writable fields
+export const userInputSchema: ObjectSchema<UserInput> = pickFields(userSchema, [
+  "name",
+  "email",
+]);
+
+export const userPatchSchema: ObjectSchema<Partial<UserInput>> =
+  partialSchema(userInputSchema);
+
+const userIdListRule = {
+  type: "array",
+  items: { type: "integer", min: 1 },
+  minItems: 1,
+  maxItems: MAX_BATCH_SIZE,
+} as const;
+
+export const batchGetUsersBodySchema: ObjectSchema<BatchGetUsersBody> = {
+  fields: {
+    ids: { ...userIdListRule, required: true },
+  },
+};
+
+// The envelope is checked up front; each operation is validated on its own
+// so one bad item does not hide the results of the others
+export const bulkUsersBodySchema: ObjectSchema<BulkUsersBody> = {
+  fields: {
+    operations: {
+      type: "array",
+      required: true,
+      items: { type: "object" },
+      minItems: 1,
+      maxItems: MAX_BULK_OPERATIONS,
+    },
+    mode: {
+      type: "string",
+      enum: ["atomic", "best-effort"],
+      default: "atomic",
+    },
+  },
+};
+
+export const bulkCreateOperationSchema: ObjectSchema<BulkCreateOperation> = {
+  fields: {
+    op: { type: "string", required: true, enum: ["create"] },
+    data: { type: "object", required: true },
+  },
+};
+
+export const bulkUpdateOperationSchema: ObjectSchema<BulkUpdateOperation> = {
+  fields: {
+    op: { type: "string", required: true, enum: ["update"] },
+    id: { type: "integer", required: true, min: 1 },
+    data: { type: "object", required: true },
+  },
+};
+
+export const listUsersQuerySchema: ObjectSchema<ListUsersQuery> = {
+  fields: {
+    ids: userIdListRule,
+    limit: { type: "integer", min: 1, max: MAX_PAGE_LIMIT, default: 20 },
+    cursor: { type: "string" },
+    name: { type: "string", maxLength: 100 },
+    email: { type: "string", maxLength: 254 },
+    createdFrom: { type: "date" },
+    createdTo: { type: "date" },
+    sortBy: {
+      type: "string",
+      enum: ["id", "name", "createdAt"],
+      default: "id",
+    },
+    order: { type: "string", enum: ["asc", "desc"], default: "asc" },
+  },
+};
+
+export const userSearchQuerySchema: ObjectSchema<UserSearchQuery> = {
+  fields: {
+    q: {
+      type: "string",
+      required: true,
+      trim: true,
+      minLength: 1,
+      maxLength: 200,
+    },
+    limit: { type: "integer", min: 1, max: MAX_PAGE_LIMIT, default: 20 },
+    cursor: { type: "string" },
+  },
+};
+
+const transferFormatRule = {
+  type: "string",
+  enum: ["csv", "ndjson"],
+} as const;
+
+export const userExportQuerySchema: ObjectSchema<UserExportQuery> = {
+  fields: {
+    format: { ...transferFormatRule, default: "csv" },
+  },
+};
+
+export const userImportQuerySchema: ObjectSchema<UserImportQuery> = {
+  fields: {
+    format: transferFormatRule,
+    dryRun: { type: "boolean", default: false },
+  },
+};
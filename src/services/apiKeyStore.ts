@@ -0,0 +1,189 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { ApiKey, ApiKeyScope, IssuedApiKey, StoredApiKey } from "../types";
+import { parseWithDates, stringifyWithDates } from "../utils/cacheCodec";
+import { logInfo } from "../utils/logger";
+
+interface ApiKeyStoreConfig {
+  file: string;
+  bootstrapKey: string | null;
+}
+
+// API key store configuration
+const API_KEY_STORE_CONFIG: ApiKeyStoreConfig = {
+  file:
+    process.env["API_KEY_STORE_FILE"] ||
+    path.join(process.cwd(), "data", "api-keys.json"),
+  // An admin key from the environment, to create the first stored keys with
+  bootstrapKey: process.env["ADMIN_API_KEY"] || null,
+};
+
+const API_KEY_PREFIX = "uda_";
+const API_KEY_BYTES = 32;
+// Characters of the key kept in the clear, enough to tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+const BOOTSTRAP_API_KEY_ID = "bootstrap";
+
+// Keys by ID and by hash, loaded from the file on first use
+let keysById: Map<string, StoredApiKey> | null = null;
+const keysByHash = new Map<string, StoredApiKey>();
+let bootstrapApiKey: StoredApiKey | null = null;
+
+// Keys are random, so a plain hash is enough; there is nothing to guess
+const hashApiKey = (key: string): string =>
+  createHash("sha256").update(key).digest("hex");
+
+const generateApiKey = (): string =>
+  `${API_KEY_PREFIX}${randomBytes(API_KEY_BYTES).toString("base64url")}`;
+
+const toApiKey = (stored: StoredApiKey): ApiKey => ({
+  id: stored.id,
+  name: stored.name,
+  scopes: stored.scopes,
+  prefix: stored.prefix,
+  createdAt: stored.createdAt,
+  rotatedAt: stored.rotatedAt,
+  revokedAt: stored.revokedAt,
+  lastUsedAt: stored.lastUsedAt,
+});
+
+const loadKeys = (): Map<string, StoredApiKey> => {
+  if (keysById) {
+    return keysById;
+  }
+
+  const { file } = API_KEY_STORE_CONFIG;
+  const stored = fs.existsSync(file)
+    ? parseWithDates<StoredApiKey[]>(fs.readFileSync(file, "utf8"))
+    : [];
+
+  keysById = new Map(stored.map((apiKey) => [apiKey.id, apiKey]));
+  for (const apiKey of stored) {
+    keysByHash.set(apiKey.hash, apiKey);
+  }
+  logInfo(`Loaded ${stored.length} API keys`);
+  return keysById;
+};
+
+// Written whole, atomically (temp file + rename), readable only by the owner
+const saveKeys = (keys: Map<string, StoredApiKey>): void => {
+  const { file } = API_KEY_STORE_CONFIG;
+  const tempPath = `${file}.tmp`;
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(tempPath, stringifyWithDates(Array.from(keys.values())), {
+    mode: 0o600,
+  });
+  fs.renameSync(tempPath, file);
+};
+
+const getBootstrapApiKey = (): StoredApiKey | null => {
+  const { bootstrapKey } = API_KEY_STORE_CONFIG;
+  if (!bootstrapKey) {
+    return null;
+  }
+  if (!bootstrapApiKey) {
+    bootstrapApiKey = {
+      id: BOOTSTRAP_API_KEY_ID,
+      name: "ADMIN_API_KEY",
+      scopes: ["admin"],
+      prefix: bootstrapKey.slice(0, DISPLAY_PREFIX_LENGTH),
+      createdAt: new Date(),
+      rotatedAt: null,
+      revokedAt: null,
+      lastUsedAt: null,
+      hash: hashApiKey(bootstrapKey),
+    };
+  }
+  return bootstrapApiKey;
+};
+
+/**
+ * Returns the key a client presented, or null if it is unknown or revoked.
+ * `lastUsedAt` is kept in memory and only saved with the next change to
+ * the store.
+ */
+export const authenticateApiKey = (key: string): ApiKey | null => {
+  const hash = hashApiKey(key);
+  const bootstrap = getBootstrapApiKey();
+
+  loadKeys();
+  const apiKey =
+    bootstrap && bootstrap.hash === hash ? bootstrap : keysByHash.get(hash);
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  apiKey.lastUsedAt = new Date();
+  return toApiKey(apiKey);
+};
+
+export const listApiKeys = (): ApiKey[] =>
+  Array.from(loadKeys().values(), toApiKey);
+
+export const createApiKey = (
+  name: string,
+  scopes: ApiKeyScope[]
+): IssuedApiKey => {
+  const keys = loadKeys();
+  const key = generateApiKey();
+  const apiKey: StoredApiKey = {
+    id: randomUUID(),
+    name,
+    scopes: Array.from(new Set(scopes)),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    createdAt: new Date(),
+    rotatedAt: null,
+    revokedAt: null,
+    lastUsedAt: null,
+    hash: hashApiKey(key),
+  };
+
+  keys.set(apiKey.id, apiKey);
+  keysByHash.set(apiKey.hash, apiKey);
+  saveKeys(keys);
+
+  logInfo(`API key ${apiKey.id} created`, { name, scopes: apiKey.scopes });
+  return { apiKey: toApiKey(apiKey), key };
+};
+
+/**
+ * Replaces a key's secret, keeping its ID, name and scopes. The old key
+ * stops working at once. Returns null for unknown or revoked keys.
+ */
+export const rotateApiKey = (id: string): IssuedApiKey | null => {
+  const keys = loadKeys();
+  const apiKey = keys.get(id);
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  const key = generateApiKey();
+  keysByHash.delete(apiKey.hash);
+  apiKey.hash = hashApiKey(key);
+  apiKey.prefix = key.slice(0, DISPLAY_PREFIX_LENGTH);
+  apiKey.rotatedAt = new Date();
+  keysByHash.set(apiKey.hash, apiKey);
+  saveKeys(keys);
+
+  logInfo(`API key ${id} rotated`);
+  return { apiKey: toApiKey(apiKey), key };
+};
+
+// Revoked keys stay listed; returns null for unknown keys
+export const revokeApiKey = (id: string): ApiKey | null => {
+  const keys = loadKeys();
+  const apiKey = keys.get(id);
+  if (!apiKey) {
+    return null;
+  }
+
+  if (!apiKey.revokedAt) {
+    apiKey.revokedAt = new Date();
+    keysByHash.delete(apiKey.hash);
+    saveKeys(keys);
+    logInfo(`API key ${id} revoked`);
+  }
+  return toApiKey(apiKey);
+};
@@ -0,0 +1,155 @@
+import { User, UserRepository } from "../types";
+import { applyBulkOperations } from "./bulkUsers";
+import { createMemoryUserRepository } from "./mockData";
+
+let mockRepository: UserRepository;
+
+jest.mock("./userRepository", () => ({
+  getUserRepository: (): UserRepository => mockRepository,
+}));
+
+const ACTOR = { actor: "key:test" };
+
+const JOHN: User = {
+  id: 1,
+  name: "John Doe",
+  email: "john@example.com",
+  version: 1,
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+};
+
+const JANE: User = {
+  id: 2,
+  name: "Jane Smith",
+  email: "jane@example.com",
+  version: 1,
+  createdAt: new Date("2023-01-02"),
+  updatedAt: new Date("2023-01-02"),
+};
+
+const createRepository = (): UserRepository =>
+  createMemoryUserRepository({
+    initialUsers: [JOHN, JANE],
+    delays: { read: 0, write: 0, delete: 0 },
+  });
+
+const update = (
+  id: number,
+  data: Record<string, unknown>
+): Record<string, unknown> => ({ op: "update", id, data });
+
+const create = (data: Record<string, unknown>): Record<string, unknown> => ({
+  op: "create",
+  data,
+});
+
+describe("applyBulkOperations", () => {
+  beforeEach(() => {
+    mockRepository = createRepository();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("applies nothing in atomic mode when an item is invalid", async () => {
+    const result = await applyBulkOperations(
+      [update(1, { name: "John Updated" }), create({ name: "X" })],
+      "atomic",
+      ACTOR
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.results.map((item) => item.status)).toEqual([
+      "not_applied",
+      "invalid",
+    ]);
+    expect(await mockRepository.getUserById(1)).toEqual(JOHN);
+  });
+
+  it("leaves the store as it started after an atomic failure", async () => {
+    const result = await applyBulkOperations(
+      [
+        update(1, { name: "John Updated" }),
+        update(1, { email: "john.updated@example.com" }),
+        create({ name: "New User", email: "new@example.com" }),
+        update(999, { name: "Nobody" }),
+      ],
+      "atomic",
+      ACTOR
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.summary).toMatchObject({ rolled_back: 3, failed: 1 });
+    expect(result.results[2]?.user).toBeUndefined();
+
+    // Updated users are back at their earlier version, with no trace of
+    // the rolled-back changes in their history
+    expect(await mockRepository.getUserById(1)).toEqual(JOHN);
+    const history = await mockRepository.getUserHistory(1);
+    expect(history.map((version) => version.version)).toEqual([1]);
+
+    // Created users are gone, and so is their claim on the email
+    const createdId = result.results[2]?.id as number;
+    expect(await mockRepository.getUserById(createdId)).toBeNull();
+    expect(await mockRepository.getUserHistory(createdId)).toEqual([]);
+    expect(await mockRepository.getUserByEmail("new@example.com")).toBeNull();
+    expect(await mockRepository.getUserByEmail("john@example.com")).toEqual(
+      JOHN
+    );
+  });
+
+  it("does not undo an update over someone else's change", async () => {
+    const repository = mockRepository;
+    // Another writer changes John while the request is still applying
+    mockRepository = {
+      ...repository,
+      updateUser: async (
+        id,
+        data,
+        actor,
+        precondition
+      ): Promise<User | null> => {
+        if (id === 999) {
+          await repository.updateUser(1, { name: "Changed Elsewhere" });
+          return null;
+        }
+        return repository.updateUser(id, data, actor, precondition);
+      },
+    };
+
+    const result = await applyBulkOperations(
+      [update(1, { name: "John Updated" }), update(999, { name: "Nobody" })],
+      "atomic",
+      ACTOR
+    );
+
+    expect(result.results[0]).toMatchObject({
+      status: "updated",
+      error: expect.stringContaining("Rollback failed"),
+    });
+    expect(await repository.getUserById(1)).toMatchObject({
+      name: "Changed Elsewhere",
+      version: 3,
+    });
+  });
+
+  it("keeps what was applied in best-effort mode", async () => {
+    const result = await applyBulkOperations(
+      [update(1, { name: "John Updated" }), update(999, { name: "Nobody" })],
+      "best-effort",
+      ACTOR
+    );
+
+    expect(result.applied).toBe(true);
+    expect(result.summary).toMatchObject({ updated: 1, failed: 1 });
+    expect(await mockRepository.getUserById(1)).toMatchObject({
+      name: "John Updated",
+      version: 2,
+    });
+  });
+});
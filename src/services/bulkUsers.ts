@@ -0,0 +1,269 @@
+import {
+  bulkCreateOperationSchema,
+  bulkUpdateOperationSchema,
+  userInputSchema,
+  userPatchSchema,
+} from "../schemas/user";
+import {
+  BulkItemResult,
+  BulkItemStatus,
+  BulkMode,
+  BulkResult,
+  User,
+  UserActor,
+  UserInput,
+  ValidationError,
+} from "../types";
+import { ConflictError } from "../utils/errors";
+import { logError, logInfo } from "../utils/logger";
+import { ObjectSchema, validate } from "../utils/validation";
+import { getUserRepository } from "./userRepository";
+
+type PlannedOperation =
+  | { index: number; op: "create"; input: UserInput }
+  | { index: number; op: "update"; id: number; input: Partial<UserInput> };
+
+interface AppliedOperation {
+  index: number;
+  undo: () => Promise<unknown>;
+}
+
+const EMPTY_SUMMARY: Record<BulkItemStatus, number> = {
+  created: 0,
+  updated: 0,
+  invalid: 0,
+  failed: 0,
+  rolled_back: 0,
+  not_applied: 0,
+};
+
+// Rewrites field paths so they point into the request body, e.g.
+// `email` -> `operations[3].data.email`
+const prefixErrors = (
+  errors: ValidationError[],
+  prefix: string
+): ValidationError[] =>
+  errors.map((error) => ({
+    ...error,
+    field: error.field === "body" ? prefix : `${prefix}.${error.field}`,
+  }));
+
+const validateItem = <T>(
+  schema: ObjectSchema<T>,
+  input: unknown,
+  prefix: string
+): { value: T } | { errors: ValidationError[] } => {
+  const result = validate(schema, input, "body");
+  return result.valid
+    ? { value: result.value }
+    : { errors: prefixErrors(result.errors, prefix) };
+};
+
+const planOperation = (
+  raw: Record<string, unknown>,
+  index: number
+): PlannedOperation | BulkItemResult => {
+  const prefix = `operations[${index}]`;
+
+  if (raw["op"] === "create") {
+    const envelope = validateItem(bulkCreateOperationSchema, raw, prefix);
+    if ("errors" in envelope) {
+      return {
+        index,
+        op: "create",
+        status: "invalid",
+        errors: envelope.errors,
+      };
+    }
+
+    const data = validateItem(
+      userInputSchema,
+      envelope.value.data,
+      `${prefix}.data`
+    );
+    return "errors" in data
+      ? { index, op: "create", status: "invalid", errors: data.errors }
+      : { index, op: "create", input: data.value };
+  }
+
+  if (raw["op"] === "update") {
+    const envelope = validateItem(bulkUpdateOperationSchema, raw, prefix);
+    if ("errors" in envelope) {
+      return {
+        index,
+        op: "update",
+        status: "invalid",
+        errors: envelope.errors,
+      };
+    }
+
+    const { id } = envelope.value;
+    const data = validateItem(
+      userPatchSchema,
+      envelope.value.data,
+      `${prefix}.data`
+    );
+    return "errors" in data
+      ? { index, op: "update", id, status: "invalid", errors: data.errors }
+      : { index, op: "update", id, input: data.value };
+  }
+
+  return {
+    index,
+    status: "invalid",
+    errors: [
+      {
+        location: "body",
+        field: `${prefix}.op`,
+        rule: "enum",
+        message: "op must be one of: create, update",
+      },
+    ],
+  };
+};
+
+const isPlanned = (
+  item: PlannedOperation | BulkItemResult
+): item is PlannedOperation => !("status" in item);
+
+const describeFailure = (error: unknown): string => {
+  if (error instanceof ConflictError) {
+    return error.message;
+  }
+  logError("Unexpected error in bulk operation", error);
+  return "Unexpected error while applying operation";
+};
+
+const summarize = (results: BulkItemResult[]): Record<BulkItemStatus, number> =>
+  results.reduce(
+    (summary, result) => ({
+      ...summary,
+      [result.status]: summary[result.status] + 1,
+    }),
+    { ...EMPTY_SUMMARY }
+  );
+
+/**
+ * Validates and applies a list of create/update operations in order.
+ *
+ * In `best-effort` mode every valid operation is attempted and failures are
+ * reported per item. In `atomic` mode nothing is attempted if any item is
+ * invalid, and the first failure undoes every operation already applied
+ * (in reverse order) so the store ends up as it started: created users are
+ * purged, and updated ones put back at their earlier version without a new
+ * history entry. An update is not undone over a change someone else made
+ * in the meantime; that item reports the rollback as failed.
+ */
+export const applyBulkOperations = async (
+  operations: Record<string, unknown>[],
+  mode: BulkMode,
+  actor: UserActor
+): Promise<BulkResult> => {
+  const repository = getUserRepository();
+  const planned = operations.map(planOperation);
+  const results: BulkItemResult[] = planned.map((item) =>
+    isPlanned(item)
+      ? {
+          index: item.index,
+          op: item.op,
+          ...(item.op === "update" && { id: item.id }),
+          status: "not_applied",
+        }
+      : item
+  );
+
+  const hasInvalid = planned.some((item) => !isPlanned(item));
+  if (mode === "atomic" && hasInvalid) {
+    return { mode, applied: false, results, summary: summarize(results) };
+  }
+
+  // Atomic mode needs the current records to undo updates; fetch them all
+  // in one call rather than once per operation. Each update then records
+  // its result, which is what a later update of the same user undoes to
+  const previous = new Map<number, User>();
+  if (mode === "atomic") {
+    const updateIds = planned.flatMap((item) =>
+      isPlanned(item) && item.op === "update" ? [item.id] : []
+    );
+    if (updateIds.length > 0) {
+      for (const user of await repository.getUsersByIds(updateIds)) {
+        previous.set(user.id, user);
+      }
+    }
+  }
+
+  const applied: AppliedOperation[] = [];
+  let aborted = false;
+
+  for (const item of planned) {
+    if (!isPlanned(item)) {
+      continue;
+    }
+
+    const result = results[item.index] as BulkItemResult;
+
+    try {
+      if (item.op === "create") {
+        const user = await repository.createUser(item.input, actor);
+        Object.assign(result, { id: user.id, status: "created", user });
+        applied.push({
+          index: item.index,
+          // A rolled-back create should leave no trace, not a soft delete
+          undo: () => repository.purgeUser(user.id),
+        });
+      } else {
+        const user = await repository.updateUser(item.id, item.input, actor);
+        if (!user) {
+          Object.assign(result, {
+            status: "failed",
+            error: `User with ID ${item.id} not found`,
+          });
+        } else {
+          Object.assign(result, { status: "updated", user });
+          const before = previous.get(item.id);
+          if (before) {
+            applied.push({
+              index: item.index,
+              undo: () => repository.revertUser(before, user.version),
+            });
+            previous.set(item.id, user);
+          }
+        }
+      }
+    } catch (error) {
+      Object.assign(result, {
+        status: "failed",
+        error: describeFailure(error),
+      });
+    }
+
+    if (mode === "atomic" && result.status === "failed") {
+      aborted = true;
+      break;
+    }
+  }
+
+  if (aborted) {
+    for (const operation of applied.reverse()) {
+      const result = results[operation.index] as BulkItemResult;
+      try {
+        await operation.undo();
+        result.status = "rolled_back";
+        delete result.user;
+      } catch (error) {
+        logError(
+          `Failed to roll back bulk operation ${operation.index}`,
+          error
+        );
+        result.error = `Rollback failed (${describeFailure(
+          error
+        )}); operation remains applied`;
+      }
+    }
+  }
+
+  const summary = summarize(results);
+  logInfo(`Bulk ${mode} request processed`, summary);
+
+  return { mode, applied: !aborted, results, summary };
+};
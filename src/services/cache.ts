@@ -1,37 +1,223 @@
-import { CacheEntry, CacheStats } from "../types";
-import { logDebug, logInfo } from "../utils/logger";
+import {
+  CacheBackend,
+  CacheEntry,
+  CacheEvictionReason,
+  CacheHotKeyReport,
+  CacheInvalidation,
+  CacheKeyInfo,
+  CacheKeyListOptions,
+  CacheKeyPage,
+  CacheLookup,
+  CacheSetOptions,
+  CacheSnapshot,
+  CacheStats,
+  SharedCacheEntry,
+} from "../types";
+import { logDebug, logError, logInfo, logWarn } from "../utils/logger";
+import { createConfiguredCacheBackend } from "./cacheBackend";
+import { createHotKeyTracker } from "./hotKeys";
+
+const parseByteBudget = (value: string | undefined): number | null => {
+  const bytes = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(bytes) && bytes > 0 ? bytes : null;
+};
 
 // Cache configuration
 const CACHE_TTL = 60 * 1000; // 60 seconds in milliseconds
+// How long past the soft TTL a value may still be served while it is
+// refreshed in the background
+const CACHE_STALE_TTL = 4 * 60 * 1000; // 4 minutes
+// How long past the hard TTL a value is kept to answer with if the
+// database fails (stale-if-error)
+const STALE_IF_ERROR_WINDOW = 10 * 60 * 1000; // 10 minutes
+// Tombstones for values known not to exist expire sooner, so something
+// created later is not hidden for long
+const NEGATIVE_CACHE_TTL = 15 * 1000; // 15 seconds
 const MAX_CACHE_SIZE = 100; // Maximum number of items in cache
-
-// Global cache state
-let cache = new Map<string, CacheEntry<unknown>>();
-let stats: CacheStats = {
+// Optional cap on the estimated size of all entries; unset means no cap
+const MAX_CACHE_BYTES = parseByteBudget(process.env["CACHE_MAX_BYTES"]);
+// Expiry times are grouped into buckets this wide, so a sweep only visits
+// buckets that are due instead of every entry
+const EXPIRY_BUCKET_MS = 1000;
+// Rough bookkeeping cost per entry on top of its key and value
+const ENTRY_OVERHEAD_BYTES = 64;
+// Keys are namespaced like `user:1`; every prefix ending in this separator
+// is indexed for prefix invalidation
+const KEY_SEGMENT_SEPARATOR = ":";
+// Hot keys are reported over this sliding window, which advances in
+// steps of one bucket
+const HOT_KEY_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
+const HOT_KEY_BUCKET_MS = 10 * 1000; // 10 seconds
+const MAX_HOT_KEYS_PER_BUCKET = 5000;
+// How many keys have their lookups counted; past twice this, the least
+// requested are dropped
+const MAX_TRACKED_REQUEST_KEYS = 1000;
+
+// Global cache state. A Map iterates in insertion order and every hit
+// re-inserts its key, so the first key is always the least recently used.
+const cache = new Map<string, CacheEntry<unknown>>();
+// Expiry bucket -> keys whose TTL runs out within it
+const expiryBuckets = new Map<number, Set<string>>();
+// First bucket the next sweep visits; every bucket before it has been swept
+let nextSweepBucket = Math.floor(Date.now() / EXPIRY_BUCKET_MS);
+// Tag -> keys carrying it
+const tagIndex = new Map<string, Set<string>>();
+// Key prefix up to a separator (`user:`) -> keys starting with it
+const prefixIndex = new Map<string, Set<string>>();
+const stats: CacheStats = {
   hits: 0,
   misses: 0,
   size: 0,
   maxSize: MAX_CACHE_SIZE,
+  bytes: 0,
+  maxBytes: MAX_CACHE_BYTES,
+  evictions: { capacity: 0, bytes: 0, ttl: 0 },
+  staleHits: 0,
+  negativeHits: 0,
+  revalidationFailures: 0,
+  l2: { backend: null, hits: 0, misses: 0, errors: 0 },
   averageResponseTime: 0,
 };
 
+// Shared (L2) cache behind the in-process map, if one is configured
+let backend: CacheBackend | null = null;
+
+// Keys with a background refresh in flight, so each gets only one
+const revalidating = new Set<string>();
+
+const hotKeys = createHotKeyTracker({
+  windowMs: HOT_KEY_WINDOW_MS,
+  bucketMs: HOT_KEY_BUCKET_MS,
+  maxKeysPerBucket: MAX_HOT_KEYS_PER_BUCKET,
+});
+
+// Lookups per key, hits and misses alike, for warming the most requested
+// keys. Not reset with the cache, since they describe demand, not content.
+const requestCounts = new Map<string, number>();
+
 // Track response times for average calculation
 let responseTimes: number[] = [];
 
-const isExpired = (entry: CacheEntry<unknown>): boolean => {
-  return Date.now() - entry.timestamp > entry.ttl;
+const getAge = (entry: SharedCacheEntry): number =>
+  Date.now() - entry.timestamp;
+
+// Entries outlive their hard TTL by the stale-if-error window, so there is
+// something to fall back on if a refresh fails. A tombstone has nothing to
+// fall back on.
+const getRetention = (entry: SharedCacheEntry): number =>
+  entry.negative ? entry.hardTtl : entry.hardTtl + STALE_IF_ERROR_WINDOW;
+
+const getExpiryBucket = (entry: CacheEntry<unknown>): number =>
+  Math.ceil((entry.timestamp + getRetention(entry)) / EXPIRY_BUCKET_MS);
+
+// Estimated as the serialized size, which tracks the real footprint closely
+// enough for a budget without walking the object graph
+const estimateSize = (key: string, value: unknown): number => {
+  let valueBytes = 0;
+  try {
+    valueBytes = Buffer.byteLength(JSON.stringify(value) ?? "");
+  } catch {
+    // Unserializable values (cycles, BigInt) only count the overhead
+  }
+  return Buffer.byteLength(key) + valueBytes + ENTRY_OVERHEAD_BYTES;
+};
+
+const getKeyPrefixes = (key: string): string[] => {
+  const prefixes: string[] = [];
+  let end = key.indexOf(KEY_SEGMENT_SEPARATOR);
+  while (end !== -1) {
+    prefixes.push(key.slice(0, end + 1));
+    end = key.indexOf(KEY_SEGMENT_SEPARATOR, end + 1);
+  }
+  return prefixes;
+};
+
+const addToIndex = <K>(
+  index: Map<K, Set<string>>,
+  name: K,
+  key: string
+): void => {
+  const keys = index.get(name) ?? new Set<string>();
+  keys.add(key);
+  index.set(name, keys);
 };
 
+const removeFromIndex = <K>(
+  index: Map<K, Set<string>>,
+  name: K,
+  key: string
+): void => {
+  const keys = index.get(name);
+  keys?.delete(key);
+  if (keys && keys.size === 0) {
+    index.delete(name);
+  }
+};
+
+const removeEntry = (key: string, entry: CacheEntry<unknown>): void => {
+  cache.delete(key);
+  stats.bytes -= entry.size;
+
+  removeFromIndex(expiryBuckets, getExpiryBucket(entry), key);
+  for (const tag of entry.tags) {
+    removeFromIndex(tagIndex, tag, key);
+  }
+  for (const prefix of getKeyPrefixes(key)) {
+    removeFromIndex(prefixIndex, prefix, key);
+  }
+};
+
+const evict = (
+  key: string,
+  entry: CacheEntry<unknown>,
+  reason: CacheEvictionReason
+): void => {
+  removeEntry(key, entry);
+  stats.evictions[reason]++;
+  logDebug(`Evicted cache entry: ${key} (${reason})`);
+};
+
+const evictBucket = (bucket: number): number => {
+  const keys = expiryBuckets.get(bucket);
+  if (!keys) {
+    return 0;
+  }
+  let removedCount = 0;
+  for (const key of keys) {
+    const entry = cache.get(key);
+    if (entry) {
+      evict(key, entry, "ttl");
+      removedCount++;
+    }
+  }
+  expiryBuckets.delete(bucket);
+  return removedCount;
+};
+
+/**
+ * Evicts the entries in buckets that have come due since the last sweep.
+ * Every entry in a bucket is past its retention once the bucket's end has
+ * passed. A sweep visits one bucket per second elapsed, or after a long
+ * idle spell, each bucket that exists; either way its cost does not grow
+ * with the number of entries still live.
+ */
 const removeExpiredEntries = (): void => {
-  const now = Date.now();
+  // Last bucket whose end has passed
+  const dueBucket = Math.ceil(Date.now() / EXPIRY_BUCKET_MS) - 1;
   let removedCount = 0;
 
-  for (const [key, entry] of cache.entries()) {
-    if (now - entry.timestamp > entry.ttl) {
-      cache.delete(key);
-      removedCount++;
+  if (dueBucket - nextSweepBucket + 1 > expiryBuckets.size) {
+    for (const bucket of Array.from(expiryBuckets.keys())) {
+      if (bucket <= dueBucket) {
+        removedCount += evictBucket(bucket);
+      }
+    }
+  } else {
+    for (let bucket = nextSweepBucket; bucket <= dueBucket; bucket++) {
+      removedCount += evictBucket(bucket);
     }
   }
+  nextSweepBucket = Math.max(nextSweepBucket, dueBucket + 1);
 
   if (removedCount > 0) {
     logDebug(`Removed ${removedCount} expired cache entries`);
@@ -39,23 +225,25 @@ const removeExpiredEntries = (): void => {
   }
 };
 
-const evictLRU = (): void => {
-  if (cache.size >= MAX_CACHE_SIZE) {
-    // Find the least recently used entry (oldest timestamp)
-    let oldestKey = "";
-    let oldestTime = Date.now();
-
-    for (const [key, entry] of cache.entries()) {
-      if (entry.timestamp < oldestTime) {
-        oldestTime = entry.timestamp;
-        oldestKey = key;
-      }
-    }
+const evictLeastRecentlyUsed = (reason: CacheEvictionReason): void => {
+  const oldest = cache.entries().next();
+  if (!oldest.done) {
+    const [key, entry] = oldest.value;
+    evict(key, entry, reason);
+  }
+};
 
-    if (oldestKey) {
-      cache.delete(oldestKey);
-      logDebug(`Evicted LRU cache entry: ${oldestKey}`);
-    }
+// Makes room for an entry of `size` bytes, oldest entries first
+const evictForSpace = (size: number): void => {
+  while (cache.size >= MAX_CACHE_SIZE) {
+    evictLeastRecentlyUsed("capacity");
+  }
+  while (
+    MAX_CACHE_BYTES !== null &&
+    cache.size > 0 &&
+    stats.bytes + size > MAX_CACHE_BYTES
+  ) {
+    evictLeastRecentlyUsed("bytes");
   }
 };
 
@@ -80,93 +268,542 @@ const recordResponseTime = (responseTime: number): void => {
   updateStats();
 };
 
-export const getFromCache = <T>(key: string): T | null => {
-  const startTime = Date.now();
+const countRequest = (key: string): void => {
+  requestCounts.set(key, (requestCounts.get(key) ?? 0) + 1);
+
+  // Trimming in one go once the map doubles keeps the cost amortized
+  if (requestCounts.size > MAX_TRACKED_REQUEST_KEYS * 2) {
+    const kept = Array.from(requestCounts)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, MAX_TRACKED_REQUEST_KEYS);
+    requestCounts.clear();
+    for (const [trackedKey, count] of kept) {
+      requestCounts.set(trackedKey, count);
+    }
+  }
+};
 
-  const entry = cache.get(key);
+// Runs a background refresh for a stale key unless one is already running.
+// The refresh is expected to store its result with setCache.
+const revalidate = (key: string, refresh: () => Promise<unknown>): void => {
+  if (revalidating.has(key)) {
+    return;
+  }
 
-  if (!entry) {
-    stats.misses++;
-    logDebug(`Cache miss for key: ${key}`);
-    recordResponseTime(Date.now() - startTime);
-    return null;
+  revalidating.add(key);
+  logDebug(`Revalidating stale cache entry: ${key}`);
+
+  refresh()
+    .catch((error) => {
+      stats.revalidationFailures++;
+      logWarn(`Background refresh failed for cache key: ${key}`, error);
+    })
+    .finally(() => {
+      revalidating.delete(key);
+    });
+};
+
+// Runs an L2 write in the background. The L1 has already been updated, so
+// a failure only leaves other instances to find out through their TTLs.
+const updateBackend = (
+  action: string,
+  operation: (shared: CacheBackend) => Promise<void>
+): void => {
+  if (!backend) {
+    return;
+  }
+
+  operation(backend).catch((error) => {
+    stats.l2.errors++;
+    logWarn(`Shared cache ${action} failed`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+};
+
+// Removes an invalidation's entries from the L2, then announces it so
+// other instances drop their L1 copies; in that order, so an instance
+// reacting to the message cannot refill its L1 from the old L2 value
+const propagateInvalidation = (invalidation: CacheInvalidation): void => {
+  updateBackend("invalidation", async (shared) => {
+    switch (invalidation.type) {
+      case "keys":
+        await shared.delete(invalidation.keys);
+        break;
+      case "tag":
+        await shared.deleteByTag(invalidation.tag);
+        break;
+      case "prefix":
+        await shared.deleteByPrefix(invalidation.prefix);
+        break;
+      case "clear":
+        await shared.clear();
+        break;
+    }
+    await shared.publish(invalidation);
+  });
+};
+
+// Puts an entry into the L1, evicting as needed. Returns false if the
+// entry alone is over the byte budget.
+const storeLocally = (key: string, shared: SharedCacheEntry): boolean => {
+  // Remove expired entries before adding new one
+  removeExpiredEntries();
+
+  const existing = cache.get(key);
+  if (existing) {
+    removeEntry(key, existing);
+  }
+
+  const size = estimateSize(key, shared.value);
+  if (MAX_CACHE_BYTES !== null && size > MAX_CACHE_BYTES) {
+    // Caching it would mean evicting everything else and still not fit
+    stats.evictions.bytes++;
+    logDebug(`Not caching ${key}: ${size} bytes exceeds the cache budget`);
+    return false;
+  }
+
+  // Evict LRU entries until the new one fits
+  evictForSpace(size);
+
+  // Access statistics describe the key, so they carry over a re-set
+  const entry: CacheEntry<unknown> = {
+    ...shared,
+    size,
+    hits: existing?.hits ?? 0,
+    lastAccess: existing?.lastAccess ?? null,
+  };
+  cache.set(key, entry);
+  stats.bytes += size;
+
+  const expiryBucket = getExpiryBucket(entry);
+  addToIndex(expiryBuckets, expiryBucket, key);
+  // An entry restored with an old timestamp can be due already; the next
+  // sweep goes back for it
+  nextSweepBucket = Math.min(nextSweepBucket, expiryBucket);
+  for (const tag of entry.tags) {
+    addToIndex(tagIndex, tag, key);
+  }
+  for (const prefix of getKeyPrefixes(key)) {
+    addToIndex(prefixIndex, prefix, key);
   }
+  return true;
+};
+
+// Copies a key from the L2 into the L1 if the L2 has it within its hard
+// TTL. The copy keeps its original timestamp, so it expires on every
+// instance at the same time.
+const loadFromBackend = async (key: string): Promise<void> => {
+  if (!backend) {
+    return;
+  }
+
+  try {
+    const shared = await backend.get(key);
+    if (!shared || getAge(shared) > shared.hardTtl) {
+      stats.l2.misses++;
+      return;
+    }
+
+    stats.l2.hits++;
+    // A value set locally while the L2 was being read is newer
+    const current = cache.get(key);
+    if (!current || current.timestamp < shared.timestamp) {
+      storeLocally(key, shared);
+    }
+  } catch (error) {
+    stats.l2.errors++;
+    logWarn(`Shared cache read failed for key: ${key}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Looks up a key and reports whether the value is fresh or stale. The L1
+ * is checked first, then the shared L2 if one is configured. A value past
+ * its soft TTL but within its hard TTL is still returned right away, and
+ * `refresh`, if given, is started in the background to replace it. Past
+ * the hard TTL the lookup is a miss.
+ */
+export const lookupCache = async <T>(
+  key: string,
+  refresh?: () => Promise<unknown>
+): Promise<CacheLookup<T> | null> => {
+  const startTime = Date.now();
+  countRequest(key);
 
-  if (isExpired(entry)) {
-    cache.delete(key);
+  let entry = cache.get(key);
+  if (backend && (!entry || getAge(entry) > entry.hardTtl)) {
+    await loadFromBackend(key);
+    entry = cache.get(key);
+  }
+  const age = entry ? getAge(entry) : 0;
+
+  if (!entry || age > entry.hardTtl) {
+    if (entry && age > getRetention(entry)) {
+      evict(key, entry, "ttl");
+    }
     stats.misses++;
-    logDebug(`Cache expired for key: ${key}`);
+    hotKeys.record(key, "miss");
+    logDebug(`Cache ${entry ? "expired" : "miss"} for key: ${key}`);
     recordResponseTime(Date.now() - startTime);
     return null;
   }
 
-  // Update timestamp to mark as recently used
-  entry.timestamp = Date.now();
+  // Move to the most recently used end. The timestamp is left alone so
+  // the TTLs count from when the value was stored.
+  cache.delete(key);
   cache.set(key, entry);
+  entry.hits++;
+  entry.lastAccess = Date.now();
+  hotKeys.record(key, "hit");
+
+  if (entry.negative) {
+    stats.negativeHits++;
+    logDebug(`Cache hit (negative) for key: ${key}`);
+    recordResponseTime(Date.now() - startTime);
+    return { negative: true };
+  }
 
   stats.hits++;
-  logDebug(`Cache hit for key: ${key}`);
+  const freshness = age > entry.ttl ? "stale" : "fresh";
+  if (freshness === "stale") {
+    stats.staleHits++;
+    if (refresh) {
+      revalidate(key, refresh);
+    }
+  }
+
+  logDebug(`Cache hit (${freshness}) for key: ${key}`);
   recordResponseTime(Date.now() - startTime);
 
-  return entry.value as T;
+  return { negative: false, value: entry.value as T, freshness };
+};
+
+// The cached value, or null on a miss or a tombstone
+export const getFromCache = async <T>(
+  key: string,
+  refresh?: () => Promise<unknown>
+): Promise<T | null> => {
+  const lookup = await lookupCache<T>(key, refresh);
+  return lookup && !lookup.negative ? lookup.value : null;
+};
+
+// Whether the L1 holds a fresh value for `key`; does not count as a lookup
+export const hasFreshEntry = (key: string): boolean => {
+  const entry = cache.get(key);
+  return entry !== undefined && !entry.negative && getAge(entry) <= entry.ttl;
+};
+
+/**
+ * Returns a value past its hard TTL, for answering with when the database
+ * fails. Only values within the stale-if-error window are returned, and
+ * the lookup does not count towards hit and miss statistics.
+ */
+export const getStaleIfError = <T>(key: string): T | null => {
+  const entry = cache.get(key);
+  return entry && !entry.negative && getAge(entry) <= getRetention(entry)
+    ? (entry.value as T)
+    : null;
+};
+
+/**
+ * Stores an entry in the L1 and, in the background, in the L2. Once the L2
+ * has it, other instances are told to drop their L1 copies so their next
+ * read picks up the new value.
+ */
+const storeEntry = (key: string, entry: SharedCacheEntry): void => {
+  if (storeLocally(key, entry)) {
+    logDebug(
+      `Cached ${entry.negative ? "tombstone" : "value"} for key: ${key} with TTL: ${entry.ttl}ms`
+    );
+    updateBackend("write", async (shared) => {
+      await shared.set(key, entry, getRetention(entry));
+      await shared.publish({ type: "keys", keys: [key] });
+    });
+  }
 };
 
 export const setCache = <T>(
   key: string,
   value: T,
-  ttl: number = CACHE_TTL
+  options: CacheSetOptions = {}
 ): void => {
+  const {
+    ttl = CACHE_TTL,
+    hardTtl = ttl + CACHE_STALE_TTL,
+    tags = [],
+  } = options;
   const startTime = Date.now();
 
-  // Remove expired entries before adding new one
-  removeExpiredEntries();
+  storeEntry(key, {
+    value,
+    timestamp: Date.now(),
+    ttl,
+    hardTtl: Math.max(hardTtl, ttl),
+    tags: Array.from(new Set(tags)),
+    negative: false,
+  });
 
-  // Evict LRU if cache is full
-  evictLRU();
+  recordResponseTime(Date.now() - startTime);
+};
 
-  const entry: CacheEntry<T> = {
-    value,
+/**
+ * Records that `key` has no value, so lookups are answered from the cache
+ * until the tombstone expires instead of going to the database again.
+ * Tombstones are never served stale; setting a value replaces them.
+ */
+export const setNegativeCache = (
+  key: string,
+  options: Pick<CacheSetOptions, "ttl" | "tags"> = {}
+): void => {
+  const { ttl = NEGATIVE_CACHE_TTL, tags = [] } = options;
+  const startTime = Date.now();
+
+  storeEntry(key, {
+    value: null,
     timestamp: Date.now(),
     ttl,
-  };
+    hardTtl: ttl,
+    tags: Array.from(new Set(tags)),
+    negative: true,
+  });
 
-  cache.set(key, entry);
-  logDebug(`Cached value for key: ${key} with TTL: ${ttl}ms`);
   recordResponseTime(Date.now() - startTime);
 };
 
+const removeKeys = (keys: string[]): number => {
+  let removed = 0;
+  for (const key of keys) {
+    const entry = cache.get(key);
+    if (entry) {
+      removeEntry(key, entry);
+      removed++;
+    }
+  }
+  return removed;
+};
+
+const getKeysWithPrefix = (prefix: string): string[] =>
+  prefix.endsWith(KEY_SEGMENT_SEPARATOR)
+    ? Array.from(prefixIndex.get(prefix) ?? [])
+    : Array.from(cache.keys()).filter((key) => key.startsWith(prefix));
+
+const removeAllEntries = (): number => {
+  const size = cache.size;
+  cache.clear();
+  expiryBuckets.clear();
+  tagIndex.clear();
+  prefixIndex.clear();
+  stats.size = 0;
+  stats.bytes = 0;
+  return size;
+};
+
+// Drops the L1 entries an invalidation covers; returns how many there were
+const invalidateLocally = (invalidation: CacheInvalidation): number => {
+  switch (invalidation.type) {
+    case "keys":
+      return removeKeys(invalidation.keys);
+    case "tag":
+      return removeKeys(Array.from(tagIndex.get(invalidation.tag) ?? []));
+    case "prefix":
+      return removeKeys(getKeysWithPrefix(invalidation.prefix));
+    case "clear":
+      return removeAllEntries();
+  }
+};
+
+// Invalidations published by other instances; their L2 side is done
+const applyRemoteInvalidation = (invalidation: CacheInvalidation): void => {
+  const removed = invalidateLocally(invalidation);
+  logDebug(
+    `Applied ${invalidation.type} invalidation from another instance (${removed} entries removed)`
+  );
+};
+
 export const deleteFromCache = (key: string): boolean => {
   const startTime = Date.now();
-  const existed = cache.delete(key);
+  const deleted = invalidateLocally({ type: "keys", keys: [key] }) > 0;
 
-  if (existed) {
+  if (deleted) {
     logDebug(`Deleted cache entry: ${key}`);
   }
+  propagateInvalidation({ type: "keys", keys: [key] });
+
+  recordResponseTime(Date.now() - startTime);
+  return deleted;
+};
+
+// Deletes several keys with a single L2 round trip and announcement;
+// returns how many were in the L1
+export const deleteManyFromCache = (keys: string[]): number => {
+  const startTime = Date.now();
+  const removed = invalidateLocally({ type: "keys", keys });
+  if (keys.length > 0) {
+    propagateInvalidation({ type: "keys", keys });
+  }
+
+  logDebug(`Deleted ${removed} of ${keys.length} cache entries`);
+  recordResponseTime(Date.now() - startTime);
+  return removed;
+};
+
+// Removes every entry set with `tag`; returns how many there were in the L1
+export const invalidateByTag = (tag: string): number => {
+  const startTime = Date.now();
+  const removed = invalidateLocally({ type: "tag", tag });
+  propagateInvalidation({ type: "tag", tag });
+
+  logInfo(`Invalidated ${removed} cache entries tagged '${tag}'`);
+  recordResponseTime(Date.now() - startTime);
+  return removed;
+};
+
+/**
+ * Removes every entry whose key starts with `prefix`. Prefixes ending at a
+ * segment separator (`user:`) are answered from the prefix index; any
+ * other prefix falls back to scanning the keys.
+ */
+export const invalidateByPrefix = (prefix: string): number => {
+  const startTime = Date.now();
+  const removed = invalidateLocally({ type: "prefix", prefix });
+  propagateInvalidation({ type: "prefix", prefix });
 
+  logInfo(`Invalidated ${removed} cache entries with prefix '${prefix}'`);
   recordResponseTime(Date.now() - startTime);
-  return existed;
+  return removed;
 };
 
 export const clearCache = (): void => {
   const startTime = Date.now();
-  const size = cache.size;
+  const size = invalidateLocally({ type: "clear" });
+  propagateInvalidation({ type: "clear" });
 
-  cache.clear();
   stats.hits = 0;
   stats.misses = 0;
-  stats.size = 0;
+  stats.evictions = { capacity: 0, bytes: 0, ttl: 0 };
+  stats.staleHits = 0;
+  stats.negativeHits = 0;
+  stats.revalidationFailures = 0;
+  stats.l2 = { ...stats.l2, hits: 0, misses: 0, errors: 0 };
+  hotKeys.clear();
   responseTimes = [];
 
   logInfo(`Cleared entire cache (${size} entries removed)`);
   recordResponseTime(Date.now() - startTime);
 };
 
+/**
+ * Connects the shared backend chosen by `CACHE_L2`, if any, and starts
+ * listening for other instances' invalidations. Connecting happens in the
+ * background; until it succeeds, and whenever the backend is unreachable,
+ * the cache works from the L1 alone.
+ */
+export const connectCacheBackend = (): void => {
+  if (backend) {
+    return;
+  }
+
+  backend = createConfiguredCacheBackend();
+  stats.l2.backend = backend?.name ?? null;
+  if (!backend) {
+    return;
+  }
+
+  const connecting = backend;
+  connecting
+    .connect()
+    .then(() => connecting.subscribe(applyRemoteInvalidation))
+    .then(() => logInfo(`Connected to ${connecting.name} shared cache`))
+    .catch((error) => {
+      stats.l2.errors++;
+      logError(`Failed to connect to ${connecting.name} shared cache`, error);
+    });
+};
+
+export const closeCacheBackend = async (): Promise<void> => {
+  if (!backend) {
+    return;
+  }
+
+  const closing = backend;
+  backend = null;
+  stats.l2.backend = null;
+  await closing.close();
+  logInfo(`Disconnected from ${closing.name} shared cache`);
+};
+
 export const getCacheStats = (): CacheStats => {
   // Remove expired entries before returning stats
   removeExpiredEntries();
   updateStats();
 
-  return { ...stats };
+  return { ...stats, evictions: { ...stats.evictions }, l2: { ...stats.l2 } };
+};
+
+// The most looked-up keys starting with `prefix`, most requested first
+export const getMostRequestedKeys = (
+  limit: number,
+  prefix: string = ""
+): string[] =>
+  Array.from(requestCounts)
+    .filter(([key]) => key.startsWith(prefix))
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([key]) => key);
+
+// The size is an estimate for this process, so it is not carried over
+const toSharedEntry = ({
+  value,
+  timestamp,
+  ttl,
+  hardTtl,
+  tags,
+  negative,
+}: CacheEntry<unknown>): SharedCacheEntry => ({
+  value,
+  timestamp,
+  ttl,
+  hardTtl,
+  tags,
+  negative,
+});
+
+// The L1's live entries in LRU order, plus the request counts
+export const getCacheSnapshot = (): CacheSnapshot => {
+  removeExpiredEntries();
+
+  return {
+    takenAt: new Date().toISOString(),
+    entries: Array.from(cache, ([key, entry]) => ({
+      key,
+      entry: toSharedEntry(entry),
+    })),
+    requestCounts: Object.fromEntries(requestCounts),
+  };
+};
+
+/**
+ * Loads a snapshot into the L1, skipping entries that have expired since
+ * it was taken. Entries keep their original timestamps, so their TTLs run
+ * on from when they were first cached. Returns how many were restored.
+ */
+export const restoreCacheSnapshot = (snapshot: CacheSnapshot): number => {
+  let restored = 0;
+
+  for (const { key, entry } of snapshot.entries) {
+    if (getAge(entry) <= getRetention(entry) && storeLocally(key, entry)) {
+      restored++;
+    }
+  }
+  for (const [key, count] of Object.entries(snapshot.requestCounts)) {
+    requestCounts.set(key, (requestCounts.get(key) ?? 0) + count);
+  }
+
+  updateStats();
+  return restored;
 };
 
 export const getCacheKeys = (): string[] => {
@@ -174,6 +811,86 @@ export const getCacheKeys = (): string[] => {
   return Array.from(cache.keys());
 };
 
+const describeEntry = (
+  key: string,
+  entry: CacheEntry<unknown>
+): CacheKeyInfo => {
+  const age = getAge(entry);
+  return {
+    key,
+    negative: entry.negative,
+    freshness:
+      age <= entry.ttl ? "fresh" : age <= entry.hardTtl ? "stale" : "expired",
+    age,
+    ttl: entry.ttl,
+    hardTtl: entry.hardTtl,
+    ttlRemaining: Math.max(entry.ttl - age, 0),
+    hardTtlRemaining: Math.max(entry.hardTtl - age, 0),
+    hits: entry.hits,
+    lastAccess: entry.lastAccess === null ? null : new Date(entry.lastAccess),
+    size: entry.size,
+    tags: [...entry.tags],
+  };
+};
+
+// Describes one key without counting as a lookup
+export const inspectCacheKey = (key: string): CacheKeyInfo | null => {
+  const entry = cache.get(key);
+  return entry ? describeEntry(key, entry) : null;
+};
+
+// Same opaque encoding as the user list cursors
+const encodeCacheKeyCursor = (key: string): string =>
+  Buffer.from(JSON.stringify({ key })).toString("base64url");
+
+export const decodeCacheKeyCursor = (encoded: string): string | null => {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf8")
+    );
+    return parsed && typeof parsed.key === "string" ? parsed.key : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Pages through the L1's keys in key order, which unlike the LRU order
+ * does not shift as entries are read. Entries past their hard TTL but kept
+ * for stale-if-error are listed as `expired`. Listing is not a lookup and
+ * does not change hit counts or recency.
+ */
+export const listCacheKeys = ({
+  limit,
+  after,
+  prefix = "",
+}: CacheKeyListOptions): CacheKeyPage => {
+  removeExpiredEntries();
+
+  const keys = getKeysWithPrefix(prefix).sort();
+  const remaining =
+    after === undefined ? keys : keys.filter((key) => key > after);
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    keys: page.map((key) =>
+      describeEntry(key, cache.get(key) as CacheEntry<unknown>)
+    ),
+    total: keys.length,
+    nextCursor:
+      remaining.length > limit && last !== undefined
+        ? encodeCacheKeyCursor(last)
+        : null,
+  };
+};
+
+// The keys with the most hits and the most misses over the last few minutes
+export const getHotKeys = (limit: number): CacheHotKeyReport => ({
+  windowSeconds: HOT_KEY_WINDOW_MS / 1000,
+  ...hotKeys.top(limit),
+});
+
 // Background task to clean up expired entries every 30 seconds
 let cleanupInterval: NodeJS.Timeout | null = null;
 
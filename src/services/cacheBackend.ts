@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import { CacheBackend } from "../types";
+import { logInfo } from "../utils/logger";
+import { createMemoryCacheBackend } from "./memoryCacheBackend";
+import { createRedisCacheBackend } from "./redisCacheBackend";
+
+type CacheBackendDriver = "none" | "memory" | "redis";
+
+interface CacheBackendConfig {
+  driver: string;
+  redisUrl: string;
+  namespace: string;
+}
+
+// Shared (L2) cache configuration
+const CACHE_BACKEND_CONFIG: CacheBackendConfig = {
+  driver: process.env["CACHE_L2"] || "none",
+  redisUrl: process.env["CACHE_REDIS_URL"] || "redis://localhost:6379",
+  namespace: process.env["CACHE_REDIS_NAMESPACE"] || "user-data-api:cache:",
+};
+
+// Identifies this process on the invalidation channel
+const CACHE_INSTANCE_ID = randomUUID();
+
+const isCacheBackendDriver = (value: string): value is CacheBackendDriver =>
+  value === "none" || value === "memory" || value === "redis";
+
+// Returns the configured shared backend, or null for an L1-only cache
+export const createConfiguredCacheBackend = (): CacheBackend | null => {
+  const { driver, redisUrl, namespace } = CACHE_BACKEND_CONFIG;
+
+  if (!isCacheBackendDriver(driver)) {
+    throw new Error(
+      `Unknown CACHE_L2 "${driver}" (expected "none", "memory" or "redis")`
+    );
+  }
+
+  switch (driver) {
+    case "none":
+      return null;
+    case "memory":
+      logInfo("Using in-process shared cache stand-in");
+      return createMemoryCacheBackend(CACHE_INSTANCE_ID);
+    case "redis":
+      logInfo(`Using Redis shared cache at ${redisUrl}`);
+      return createRedisCacheBackend({
+        url: redisUrl,
+        namespace,
+        instanceId: CACHE_INSTANCE_ID,
+      });
+  }
+};
@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import { CacheSnapshot } from "../types";
+import { parseWithDates, stringifyWithDates } from "../utils/cacheCodec";
+import { logInfo, logWarn } from "../utils/logger";
+import { getCacheSnapshot, restoreCacheSnapshot } from "./cache";
+
+interface CacheSnapshotConfig {
+  enabled: boolean;
+  file: string;
+}
+
+// Cache snapshot configuration
+const CACHE_SNAPSHOT_CONFIG: CacheSnapshotConfig = {
+  // Off by default with the in-memory user store, whose users do not
+  // survive a restart; a snapshot would bring back users that are gone
+  enabled:
+    (process.env["CACHE_SNAPSHOT"] ||
+      (process.env["USER_STORE"] === "file" ? "on" : "off")) === "on",
+  file:
+    process.env["CACHE_SNAPSHOT_FILE"] ||
+    path.join(process.cwd(), "data", "cache.snapshot.json"),
+};
+
+/**
+ * Writes the cache to the snapshot file, atomically (temp file + rename)
+ * so a crash mid-write leaves the previous snapshot intact. Synchronous,
+ * since it runs while the process is shutting down.
+ */
+export const saveCacheSnapshot = (): void => {
+  const { enabled, file } = CACHE_SNAPSHOT_CONFIG;
+  if (!enabled) {
+    return;
+  }
+
+  const snapshot = getCacheSnapshot();
+  const tempPath = `${file}.tmp`;
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(tempPath, stringifyWithDates(snapshot));
+  fs.renameSync(tempPath, file);
+
+  logInfo(
+    `Saved cache snapshot: ${snapshot.entries.length} entries to ${file}`
+  );
+};
+
+/**
+ * Restores the cache from the snapshot file, if there is one. A snapshot
+ * that cannot be read is skipped: starting cold is better than not
+ * starting.
+ */
+export const loadCacheSnapshot = (): void => {
+  const { enabled, file } = CACHE_SNAPSHOT_CONFIG;
+  if (!enabled || !fs.existsSync(file)) {
+    return;
+  }
+
+  try {
+    const snapshot = parseWithDates<CacheSnapshot>(
+      fs.readFileSync(file, "utf8")
+    );
+    const restored = restoreCacheSnapshot(snapshot);
+
+    logInfo(
+      `Restored ${restored} of ${snapshot.entries.length} cache entries from snapshot taken at ${snapshot.takenAt}`
+    );
+  } catch (error) {
+    logWarn(`Ignoring unreadable cache snapshot ${file}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
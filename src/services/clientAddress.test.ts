@@ -0,0 +1,154 @@
+import { ClientAddressRequest } from "./clientAddress";
+
+type ClientAddressModule = typeof import("./clientAddress");
+
+const TRUSTED_PROXIES = "10.0.0.0/8,2001:db8::/32";
+
+// The module reads its configuration when loaded, so each header setting
+// gets a fresh copy
+const loadClientAddress = async (
+  forwardedHeader: string
+): Promise<ClientAddressModule> => {
+  jest.resetModules();
+  process.env["TRUSTED_PROXIES"] = TRUSTED_PROXIES;
+  process.env["FORWARDED_HEADER"] = forwardedHeader;
+  return import("./clientAddress");
+};
+
+const createRequest = (
+  remoteAddress: string | undefined,
+  headers: Record<string, string> = {}
+): ClientAddressRequest => ({
+  socket: { remoteAddress },
+  get: (header: string): string | undefined => headers[header.toLowerCase()],
+});
+
+afterAll(() => {
+  delete process.env["TRUSTED_PROXIES"];
+  delete process.env["FORWARDED_HEADER"];
+});
+
+describe("resolveClientIp with X-Forwarded-For", () => {
+  let resolveClientIp: ClientAddressModule["resolveClientIp"];
+
+  beforeAll(async () => {
+    ({ resolveClientIp } = await loadClientAddress("x-forwarded-for"));
+  });
+
+  it("ignores forwarded headers from a connection that is not a proxy", () => {
+    const req = createRequest("198.51.100.1", {
+      "x-forwarded-for": "203.0.113.9",
+    });
+
+    expect(resolveClientIp(req)).toBe("198.51.100.1");
+  });
+
+  it("takes the address a trusted proxy recorded", () => {
+    const req = createRequest("10.0.0.1", { "x-forwarded-for": "203.0.113.9" });
+
+    expect(resolveClientIp(req)).toBe("203.0.113.9");
+  });
+
+  it("stops at the first hop that is not a trusted proxy", () => {
+    const req = createRequest("10.0.0.1", {
+      "x-forwarded-for": "192.0.2.66, 203.0.113.9, 10.0.0.2",
+    });
+
+    expect(resolveClientIp(req)).toBe("203.0.113.9");
+  });
+
+  it("takes the leftmost hop when every hop is a trusted proxy", () => {
+    const req = createRequest("10.0.0.1", {
+      "x-forwarded-for": "10.0.0.3, 10.0.0.2",
+    });
+
+    expect(resolveClientIp(req)).toBe("10.0.0.3");
+  });
+
+  it("reads IPv4-mapped and bracketed addresses", () => {
+    const req = createRequest("::ffff:10.0.0.1", {
+      "x-forwarded-for": "[2001:db9::17]:4711",
+    });
+
+    expect(resolveClientIp(req)).toBe("2001:db9::17");
+  });
+
+  it("never reads the other forwarded headers", () => {
+    const req = createRequest("10.0.0.1", {
+      forwarded: "for=203.0.113.9",
+      "x-real-ip": "203.0.113.9",
+    });
+
+    expect(resolveClientIp(req)).toBe("10.0.0.1");
+  });
+
+  it("returns unknown for a request without an address", () => {
+    expect(resolveClientIp(createRequest(undefined))).toBe("unknown");
+  });
+});
+
+describe("resolveClientIp with Forwarded", () => {
+  let resolveClientIp: ClientAddressModule["resolveClientIp"];
+
+  beforeAll(async () => {
+    ({ resolveClientIp } = await loadClientAddress("forwarded"));
+  });
+
+  it("walks the for= parameters from the right", () => {
+    const req = createRequest("10.0.0.1", {
+      forwarded:
+        'for=192.0.2.66, for="[2001:db9::17]:4711";proto=https, for=10.0.0.2',
+      "x-forwarded-for": "198.51.100.1",
+    });
+
+    expect(resolveClientIp(req)).toBe("2001:db9::17");
+  });
+
+  it("keeps an obfuscated identifier from a trusted proxy", () => {
+    const req = createRequest("10.0.0.1", { forwarded: "for=_hidden" });
+
+    expect(resolveClientIp(req)).toBe("_hidden");
+  });
+});
+
+describe("resolveClientIp with X-Real-IP", () => {
+  it("takes the one address the proxy recorded", async () => {
+    const { resolveClientIp } = await loadClientAddress("x-real-ip");
+    const req = createRequest("10.0.0.1", {
+      "x-real-ip": "203.0.113.9:8080",
+      "x-forwarded-for": "198.51.100.1",
+    });
+
+    expect(resolveClientIp(req)).toBe("203.0.113.9");
+  });
+});
+
+describe("resolveClientAddress", () => {
+  let resolveClientAddress: ClientAddressModule["resolveClientAddress"];
+
+  beforeAll(async () => {
+    ({ resolveClientAddress } = await loadClientAddress("x-forwarded-for"));
+  });
+
+  it("groups IPv6 clients by /64 network", () => {
+    const first = createRequest("2001:db9:1:2::5");
+    const second = createRequest("2001:db9:1:2:ffff::1");
+
+    expect(resolveClientAddress(first)).toBe("2001:db9:1:2:0:0:0:0/64");
+    expect(resolveClientAddress(second)).toBe("2001:db9:1:2:0:0:0:0/64");
+  });
+
+  it("keeps IPv4 clients as their address", () => {
+    expect(resolveClientAddress(createRequest("198.51.100.1"))).toBe(
+      "198.51.100.1"
+    );
+  });
+});
+
+describe("FORWARDED_HEADER", () => {
+  it("must name one of the supported headers", async () => {
+    await expect(loadClientAddress("x-client-ip")).rejects.toThrow(
+      'Unknown FORWARDED_HEADER "x-client-ip"'
+    );
+  });
+});
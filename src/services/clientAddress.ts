@@ -0,0 +1,147 @@
+import { isIP, isIPv4 } from "net";
+import {
+  createAddressMatcher,
+  getIpv6Network,
+  normalizeIp,
+} from "../utils/ipAddress";
+
+// The header the trusted proxies record client addresses in
+type ForwardedHeaderName = "forwarded" | "x-forwarded-for" | "x-real-ip";
+
+interface ClientAddressConfig {
+  trustedProxies: string[];
+  forwardedHeader: ForwardedHeaderName;
+  ipv6Prefix: number;
+}
+
+export interface ClientAddressRequest {
+  socket: { remoteAddress?: string | undefined };
+  get: (header: string) => string | undefined;
+}
+
+const isForwardedHeaderName = (value: string): value is ForwardedHeaderName =>
+  value === "forwarded" || value === "x-forwarded-for" || value === "x-real-ip";
+
+const parseForwardedHeader = (value: string): ForwardedHeaderName => {
+  const header = value.toLowerCase();
+  if (!isForwardedHeaderName(header)) {
+    throw new Error(
+      `Unknown FORWARDED_HEADER "${value}" (expected "forwarded", "x-forwarded-for" or "x-real-ip")`
+    );
+  }
+  return header;
+};
+
+const parseIpv6Prefix = (value: string): number => {
+  const prefix = Number(value);
+  if (!Number.isInteger(prefix) || prefix < 1 || prefix > 128) {
+    throw new Error(
+      `Invalid CLIENT_IPV6_PREFIX "${value}" (expected 1 to 128)`
+    );
+  }
+  return prefix;
+};
+
+// Client address configuration
+const CLIENT_ADDRESS_CONFIG: ClientAddressConfig = {
+  // Addresses and CIDR ranges of the proxies in front of the API. Forwarded
+  // headers are ignored unless the connection comes from one of them
+  trustedProxies: (process.env["TRUSTED_PROXIES"] || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean),
+  // Only this header is read. The others are ignored, since the proxies
+  // pass them through unchanged from the client
+  forwardedHeader: parseForwardedHeader(
+    process.env["FORWARDED_HEADER"] || "x-forwarded-for"
+  ),
+  // IPv6 clients are grouped by network of this size
+  ipv6Prefix: parseIpv6Prefix(process.env["CLIENT_IPV6_PREFIX"] || "64"),
+};
+
+const isTrustedProxy = createAddressMatcher(
+  CLIENT_ADDRESS_CONFIG.trustedProxies
+);
+
+// Removes the port and IPv6 brackets from a forwarded node, e.g.
+// `"[2001:db8::1]:4711"` or `192.0.2.1:8080`
+const stripPort = (node: string): string => {
+  const unquoted = node.trim().replace(/^"(.*)"$/, "$1");
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(unquoted);
+  if (bracketed) {
+    return bracketed[1] as string;
+  }
+  const ipv4WithPort = /^([\d.]+):\d+$/.exec(unquoted);
+  return ipv4WithPort ? (ipv4WithPort[1] as string) : unquoted;
+};
+
+// The `for=` nodes of a Forwarded header (RFC 7239), in header order
+const parseForwarded = (header: string): string[] =>
+  header.split(",").flatMap((element) => {
+    const forPair = element
+      .split(";")
+      .map((pair) => pair.trim())
+      .find((pair) => pair.toLowerCase().startsWith("for="));
+    return forPair ? [stripPort(forPair.slice("for=".length))] : [];
+  });
+
+// The addresses proxies recorded for a request in the configured header,
+// client first
+const getForwardedChain = (req: ClientAddressRequest): string[] => {
+  const header = req.get(CLIENT_ADDRESS_CONFIG.forwardedHeader);
+  if (!header) {
+    return [];
+  }
+
+  switch (CLIENT_ADDRESS_CONFIG.forwardedHeader) {
+    case "forwarded":
+      return parseForwarded(header);
+    case "x-forwarded-for":
+      return header.split(",").map(stripPort).filter(Boolean);
+    case "x-real-ip":
+      return [stripPort(header)];
+  }
+};
+
+const toClientKey = (address: string): string =>
+  isIPv4(address)
+    ? address
+    : getIpv6Network(address, CLIENT_ADDRESS_CONFIG.ipv6Prefix);
+
+/**
+ * Returns the address a request comes from, as far as it can be trusted.
+ * Starting from the connection, the forwarded chain is walked from its
+ * right end only while each hop is a trusted proxy; the first address that
+ * is not one is the client. Anything further left was written by the
+ * client itself and is ignored.
+ */
+export const resolveClientIp = (req: ClientAddressRequest): string => {
+  let client = normalizeIp(req.socket.remoteAddress ?? "");
+  if (!client) {
+    return "unknown";
+  }
+
+  const chain = isTrustedProxy(client) ? getForwardedChain(req) : [];
+  for (let i = chain.length - 1; i >= 0 && isTrustedProxy(client); i--) {
+    const node = chain[i] as string;
+    const address = normalizeIp(node);
+    if (!address) {
+      // An obfuscated identifier or `unknown` from a trusted proxy: the
+      // best identity available, and not something the client chose
+      return node;
+    }
+    client = address;
+  }
+
+  return client;
+};
+
+/**
+ * Returns the identity of the address a request comes from (see
+ * `resolveClientIp`). IPv6 clients are returned as their network
+ * (`<network>/<prefix>`).
+ */
+export const resolveClientAddress = (req: ClientAddressRequest): string => {
+  const address = resolveClientIp(req);
+  return isIP(address) ? toClientKey(address) : address;
+};
@@ -0,0 +1,143 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { UserRepository } from "../types";
+import {
+  createFileUserRepository,
+  FileUserRepositoryOptions,
+} from "./fileUserRepository";
+
+const SNAPSHOT_FILE = "users.snapshot.json";
+const LOG_FILE = "users.log";
+
+let directory: string;
+const openRepositories: UserRepository[] = [];
+
+const openRepository = (
+  overrides: Partial<FileUserRepositoryOptions> = {}
+): UserRepository => {
+  const repository = createFileUserRepository({
+    directory,
+    snapshotIntervalMs: 60000,
+    compactionThreshold: 1000,
+    syncAppends: false,
+    ...overrides,
+  });
+  openRepositories.push(repository);
+  return repository;
+};
+
+const closeRepository = async (repository: UserRepository): Promise<void> => {
+  openRepositories.splice(openRepositories.indexOf(repository), 1);
+  await repository.close();
+};
+
+// Writes a few users covering every kind of log entry: creates, updates,
+// a soft delete and a revert
+const writeUsers = async (repository: UserRepository): Promise<void> => {
+  const ada = await repository.createUser({
+    name: "Ada Lovelace",
+    email: "ada@example.com",
+  });
+  const bob = await repository.createUser({
+    name: "Bob Stone",
+    email: "bob@example.com",
+  });
+  await repository.updateUser(ada.id, { name: "Ada King" }, { actor: "key:a" });
+  const renamed = await repository.updateUser(bob.id, { name: "Bob Marble" });
+  await repository.revertUser(bob, renamed?.version as number);
+  await repository.deleteUser(bob.id);
+};
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "user-store-"));
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "debug").mockImplementation(() => undefined);
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  for (const repository of openRepositories.splice(0)) {
+    await repository.close();
+  }
+  fs.rmSync(directory, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("createFileUserRepository", () => {
+  it("replays the log when there is no snapshot to start from", async () => {
+    const writer = openRepository();
+    await writeUsers(writer);
+    // Nothing has been compacted yet, so this is the state a crash leaves
+    const log = fs.readFileSync(path.join(directory, LOG_FILE), "utf8");
+    await closeRepository(writer);
+
+    fs.rmSync(path.join(directory, SNAPSHOT_FILE));
+    fs.writeFileSync(
+      path.join(directory, LOG_FILE),
+      `${log}{"type":"upsert","user":{"id":1,`
+    );
+
+    const repository = openRepository();
+
+    expect(await repository.getUserById(1)).toMatchObject({
+      name: "Ada King",
+      version: 2,
+      createdAt: expect.any(Date),
+    });
+    expect(await repository.getUserById(2)).toBeNull();
+    expect(await repository.getUserByEmail("bob@example.com")).toBeNull();
+
+    const history = await repository.getUserHistory(2);
+    expect(history.map((version) => version.version)).toEqual([1, 2]);
+    expect(history[1]?.action).toBe("delete");
+    expect(history[1]?.timestamp).toEqual(expect.any(Date));
+    expect((await repository.getUserHistory(1))[1]?.actor).toBe("key:a");
+
+    const restored = await repository.restoreUser(2);
+    expect(restored).toMatchObject({ name: "Bob Stone", version: 3 });
+    expect(
+      (await repository.createUser({ name: "C", email: "c@x.io" })).id
+    ).toBe(3);
+  });
+
+  it("refuses a log that is corrupt before its last line", async () => {
+    fs.writeFileSync(
+      path.join(directory, LOG_FILE),
+      'not json\n{"type":"delete","id":1}\n'
+    );
+
+    expect(() => openRepository()).toThrow("Corrupt user log entry");
+  });
+
+  it("keeps everything across a close and reopen", async () => {
+    const writer = openRepository();
+    await writeUsers(writer);
+    const users = await writer.getAllUsers();
+    await closeRepository(writer);
+
+    expect(fs.readFileSync(path.join(directory, LOG_FILE), "utf8")).toBe("");
+
+    const repository = openRepository();
+    expect(await repository.getAllUsers()).toEqual(users);
+    expect(await repository.getUserHistory(2)).toHaveLength(2);
+  });
+
+  it("compacts early once the log reaches the threshold", async () => {
+    const writer = openRepository({ compactionThreshold: 3 });
+    await writeUsers(writer);
+
+    // Six entries were written: compacted at the third and the sixth
+    expect(fs.existsSync(path.join(directory, SNAPSHOT_FILE))).toBe(true);
+    expect(fs.readFileSync(path.join(directory, LOG_FILE), "utf8")).toBe("");
+
+    await writer.updateUser(1, { name: "Ada Byron" });
+    const snapshot = JSON.parse(
+      fs.readFileSync(path.join(directory, SNAPSHOT_FILE), "utf8")
+    ) as { users: { name: string }[] };
+    expect(snapshot.users.map((user) => user.name)).toContain("Ada King");
+
+    await closeRepository(writer);
+    expect((await openRepository().getUserById(1))?.name).toBe("Ada Byron");
+  });
+});
@@ -0,0 +1,263 @@
+import fs from "fs";
+import path from "path";
+import { User, UserChange, UserRepository, UserVersion } from "../types";
+import { logDebug, logInfo, logWarn } from "../utils/logger";
+import { createMemoryUserRepository } from "./mockData";
+
+export interface FileUserRepositoryOptions {
+  directory: string;
+  snapshotIntervalMs: number; // How often pending log entries are compacted
+  compactionThreshold: number; // Log entries that force an early compaction
+  syncAppends: boolean; // fdatasync the log after every entry
+}
+
+interface StoreState {
+  users: Map<number, User>;
+  history: Map<number, UserVersion[]>;
+  nextId: number;
+}
+
+interface UserSnapshot {
+  nextId: number;
+  takenAt: string;
+  users: User[];
+  history?: UserVersion[];
+}
+
+const SNAPSHOT_FILE = "users.snapshot.json";
+const LOG_FILE = "users.log";
+
+// Records written before versioning existed start at version 1
+const reviveUser = (user: User): User => ({
+  ...user,
+  version: user.version ?? 1,
+  ...(user.createdAt && { createdAt: new Date(user.createdAt) }),
+  ...(user.updatedAt && { updatedAt: new Date(user.updatedAt) }),
+  ...(user.deletedAt && { deletedAt: new Date(user.deletedAt) }),
+});
+
+const reviveVersion = (version: UserVersion): UserVersion => ({
+  ...version,
+  timestamp: new Date(version.timestamp),
+  snapshot: reviveUser(version.snapshot),
+});
+
+const applyChange = (state: StoreState, change: UserChange): void => {
+  if (change.type === "upsert") {
+    state.users.set(change.user.id, change.user);
+    state.nextId = Math.max(state.nextId, change.user.id + 1);
+    if (change.version) {
+      const versions = state.history.get(change.user.id) ?? [];
+      versions.push(change.version);
+      state.history.set(change.user.id, versions);
+    }
+  } else if (change.type === "revert") {
+    state.users.set(change.user.id, change.user);
+    state.history.set(
+      change.user.id,
+      (state.history.get(change.user.id) ?? []).filter(
+        (version) => version.version <= change.user.version
+      )
+    );
+  } else {
+    state.users.delete(change.id);
+    state.history.delete(change.id);
+  }
+};
+
+const loadSnapshot = (snapshotPath: string): StoreState => {
+  if (!fs.existsSync(snapshotPath)) {
+    return { users: new Map(), history: new Map(), nextId: 1 };
+  }
+
+  const snapshot = JSON.parse(
+    fs.readFileSync(snapshotPath, "utf8")
+  ) as UserSnapshot;
+
+  const history = new Map<number, UserVersion[]>();
+  for (const version of snapshot.history ?? []) {
+    const versions = history.get(version.userId) ?? [];
+    versions.push(reviveVersion(version));
+    history.set(version.userId, versions);
+  }
+
+  return {
+    users: new Map(snapshot.users.map((user) => [user.id, reviveUser(user)])),
+    history,
+    nextId: snapshot.nextId,
+  };
+};
+
+// Writes a file and flushes it to disk before returning
+const writeFileDurably = (filePath: string, data: string): void => {
+  const fd = fs.openSync(filePath, "w");
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+// Makes a rename in the directory durable. Windows cannot open directories,
+// and does not need this
+const syncDirectory = (directory: string): void => {
+  if (process.platform === "win32") {
+    return;
+  }
+  const fd = fs.openSync(directory, "r");
+  try {
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+/**
+ * Replays the change log on top of a snapshot and returns the number of
+ * entries applied. A malformed final line is the remains of an interrupted
+ * append and is dropped; a malformed line anywhere else means the log is
+ * corrupt and recovery stops with an error.
+ */
+const replayLog = (logPath: string, state: StoreState): number => {
+  if (!fs.existsSync(logPath)) {
+    return 0;
+  }
+
+  const lines = fs
+    .readFileSync(logPath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+
+  let applied = 0;
+
+  lines.forEach((line, index) => {
+    let change: UserChange;
+    try {
+      change = JSON.parse(line) as UserChange;
+    } catch {
+      if (index === lines.length - 1) {
+        logWarn(`Discarding truncated user log entry at line ${index + 1}`);
+        return;
+      }
+      throw new Error(
+        `Corrupt user log entry at ${logPath}:${index + 1}: ${line}`
+      );
+    }
+
+    switch (change.type) {
+      case "upsert":
+        applyChange(state, {
+          type: "upsert",
+          user: reviveUser(change.user),
+          version: change.version && reviveVersion(change.version),
+        });
+        break;
+      case "revert":
+        applyChange(state, { type: "revert", user: reviveUser(change.user) });
+        break;
+      case "delete":
+        applyChange(state, change);
+        break;
+    }
+    applied++;
+  });
+
+  return applied;
+};
+
+/**
+ * Durable user store backed by an append-only JSON-lines change log plus a
+ * periodic snapshot. Reads are served from memory; every mutation is
+ * appended to the log, and with `syncAppends` flushed to disk, before the
+ * call resolves. Compaction writes a new snapshot atomically (temp file +
+ * rename), and only truncates the log once the snapshot and the rename are
+ * on disk. It runs synchronously so no append can land between the steps.
+ */
+export const createFileUserRepository = (
+  options: FileUserRepositoryOptions
+): UserRepository => {
+  const snapshotPath = path.join(options.directory, SNAPSHOT_FILE);
+  const logPath = path.join(options.directory, LOG_FILE);
+
+  fs.mkdirSync(options.directory, { recursive: true });
+
+  const state = loadSnapshot(snapshotPath);
+  const replayed = replayLog(logPath, state);
+  let pendingEntries = replayed;
+
+  logInfo(
+    `Recovered ${state.users.size} users from ${options.directory} (${replayed} log entries replayed)`
+  );
+
+  const compact = (): void => {
+    const snapshot: UserSnapshot = {
+      nextId: state.nextId,
+      takenAt: new Date().toISOString(),
+      users: Array.from(state.users.values()),
+      history: Array.from(state.history.values()).flat(),
+    };
+
+    // After a crash the log must never be empty while the snapshot is not
+    // yet complete on disk
+    const tempPath = `${snapshotPath}.tmp`;
+    writeFileDurably(tempPath, JSON.stringify(snapshot));
+    fs.renameSync(tempPath, snapshotPath);
+    syncDirectory(options.directory);
+    fs.ftruncateSync(logFd, 0);
+    fs.fsyncSync(logFd);
+
+    logDebug(
+      `Compacted user store: ${snapshot.users.length} users, ${pendingEntries} log entries folded`
+    );
+    pendingEntries = 0;
+  };
+
+  const append = (change: UserChange): void => {
+    fs.writeSync(logFd, `${JSON.stringify(change)}\n`);
+    if (options.syncAppends) {
+      fs.fdatasyncSync(logFd);
+    }
+    applyChange(state, change);
+    pendingEntries++;
+
+    if (pendingEntries >= options.compactionThreshold) {
+      compact();
+    }
+  };
+
+  // Fold the recovered log into a fresh snapshot, which also drops any
+  // truncated tail so new appends start on a clean line
+  const hadLog = fs.existsSync(logPath);
+  // Opened for appending: every write lands at the end, even after a truncate
+  const logFd = fs.openSync(logPath, "a");
+  if (replayed > 0 || hadLog) {
+    compact();
+  }
+
+  const repository = createMemoryUserRepository({
+    initialUsers: Array.from(state.users.values()),
+    initialHistory: Array.from(state.history.values()).flat(),
+    nextId: state.nextId,
+    delays: { read: 0, write: 0, delete: 0 },
+    onChange: append,
+  });
+
+  const snapshotInterval = setInterval(() => {
+    if (pendingEntries > 0) {
+      compact();
+    }
+  }, options.snapshotIntervalMs);
+
+  return {
+    ...repository,
+    close: async (): Promise<void> => {
+      clearInterval(snapshotInterval);
+      if (pendingEntries > 0) {
+        compact();
+      }
+      fs.closeSync(logFd);
+      logInfo("User store flushed to disk");
+    },
+  };
+};
@@ -0,0 +1,120 @@
+import { RateLimitConfig } from "../types";
+import { createGcraRateLimiter } from "./gcraRateLimiter";
+
+// One unit comes back every second, and the bucket holds ten
+const CONFIG: RateLimitConfig = {
+  algorithm: "gcra",
+  windowMs: 60 * 1000,
+  maxRequests: 60,
+  burstWindowMs: 10 * 1000,
+  maxBurstRequests: 10,
+};
+
+const CLIENT = "203.0.113.9";
+
+describe("createGcraRateLimiter", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("allows a full bucket at once, then refuses until a unit is back", () => {
+    const limiter = createGcraRateLimiter(CONFIG);
+
+    for (let i = 0; i < 10; i++) {
+      expect(limiter.consume(CLIENT, 1, 0).allowed).toBe(true);
+    }
+    const refused = limiter.consume(CLIENT, 1, 0);
+
+    expect(refused).toMatchObject({
+      allowed: false,
+      limitedBy: "burst",
+      retryAfterSeconds: 1,
+    });
+    expect(limiter.consume(CLIENT, 1, 999).allowed).toBe(false);
+    expect(limiter.consume(CLIENT, 1, 1000).allowed).toBe(true);
+  });
+
+  it("does not charge refused requests", () => {
+    const limiter = createGcraRateLimiter(CONFIG);
+    limiter.consume(CLIENT, 10, 0);
+
+    for (let i = 0; i < 5; i++) {
+      limiter.consume(CLIENT, 1, 0);
+    }
+
+    expect(limiter.consume(CLIENT, 1, 1000).allowed).toBe(true);
+  });
+
+  it("waits for as many units as a request costs", () => {
+    const limiter = createGcraRateLimiter(CONFIG);
+    limiter.consume(CLIENT, 10, 0);
+
+    expect(limiter.consume(CLIENT, 3, 0).retryAfterSeconds).toBe(3);
+    expect(limiter.consume(CLIENT, 3, 2000).allowed).toBe(false);
+    expect(limiter.consume(CLIENT, 3, 3000).allowed).toBe(true);
+  });
+
+  it("never allows a request costing more than the bucket", () => {
+    const limiter = createGcraRateLimiter(CONFIG);
+
+    expect(limiter.consume(CLIENT, 11, 0).allowed).toBe(false);
+    expect(limiter.consume(CLIENT, 11, 60 * 60 * 1000).allowed).toBe(false);
+    expect(limiter.consume(CLIENT, 10, 0).allowed).toBe(true);
+  });
+
+  it("reports the units left and the time until the bucket is full", () => {
+    const limiter = createGcraRateLimiter(CONFIG);
+    limiter.consume(CLIENT, 3, 0);
+
+    expect(limiter.peek(CLIENT, 0)).toEqual([
+      {
+        name: "burst",
+        limit: 10,
+        windowSeconds: 10,
+        remaining: 7,
+        resetSeconds: 3,
+      },
+      {
+        name: "sustained",
+        limit: 60,
+        windowSeconds: 60,
+        remaining: 57,
+        resetSeconds: 3,
+      },
+    ]);
+  });
+
+  it("counts a partly refilled unit as still owed", () => {
+    const limiter = createGcraRateLimiter(CONFIG);
+    limiter.consume(CLIENT, 10, 0);
+
+    const [burst] = limiter.peek(CLIENT, 2500);
+
+    expect(burst).toMatchObject({ remaining: 2, resetSeconds: 8 });
+  });
+
+  it("gives a reset client a full bucket", () => {
+    const limiter = createGcraRateLimiter(CONFIG);
+    limiter.consume(CLIENT, 10, 0);
+
+    limiter.reset(CLIENT);
+
+    expect(limiter.peek(CLIENT, 0)[0]?.remaining).toBe(10);
+    expect(limiter.consume(CLIENT, 10, 0).allowed).toBe(true);
+    expect(limiter.clientCount()).toBe(1);
+  });
+
+  it("sweeps clients whose bucket is full again", () => {
+    const limiter = createGcraRateLimiter(CONFIG);
+    limiter.consume(CLIENT, 2, 0);
+    limiter.consume("198.51.100.1", 5, 0);
+
+    expect(limiter.activeClientCount(3000)).toBe(1);
+    expect(limiter.sweep(3000)).toBe(1);
+    expect(limiter.clientCount()).toBe(1);
+  });
+});
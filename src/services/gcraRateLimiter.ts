@@ -0,0 +1,122 @@
+import {
+  RateLimitAlgorithm,
+  RateLimitConfig,
+  RateLimitDecision,
+  RateLimitWindow,
+} from "../types";
+import { logWarn } from "../utils/logger";
+
+/**
+ * Token bucket implemented as GCRA (generic cell rate algorithm). Each
+ * client's bucket holds `maxBurstRequests` units and refills at
+ * `maxRequests` per `windowMs`. Instead of a token count and a refill
+ * timestamp, only the theoretical arrival time (TAT) is stored: the time
+ * at which the client's bucket is full again. A request of `cost` units
+ * moves it forward by `cost` emission intervals, and is refused if that
+ * would put it more than a full bucket ahead of now.
+ *
+ * The bucket is reported as two windows: the burst window is the bucket
+ * itself, refilled completely in `maxBurstRequests` emission intervals;
+ * the sustained window counts the units not yet refilled against
+ * `maxRequests`. Only the burst window ever refuses a request.
+ */
+export const createGcraRateLimiter = (
+  config: RateLimitConfig
+): RateLimitAlgorithm => {
+  // Time it takes for one unit to come back
+  const emissionInterval = config.windowMs / config.maxRequests;
+  // Furthest the TAT may run ahead of now: a full bucket's worth
+  const burstTolerance = emissionInterval * config.maxBurstRequests;
+  // One number per client; a client whose TAT has passed has a full bucket
+  const tats = new Map<string, number>();
+
+  const toSeconds = (ms: number): number => Math.ceil(ms / 1000);
+
+  const getWindows = (tat: number, now: number): RateLimitWindow[] => {
+    // Time until the bucket is full again, and the units that represents
+    const used = Math.max(0, tat - now);
+    // (less a hair, so floating-point error cannot round a unit up)
+    const owed = Math.ceil(used / emissionInterval - 1e-9);
+    return [
+      {
+        name: "burst",
+        limit: config.maxBurstRequests,
+        windowSeconds: toSeconds(burstTolerance),
+        remaining: Math.max(0, config.maxBurstRequests - owed),
+        resetSeconds: toSeconds(used),
+      },
+      {
+        name: "sustained",
+        limit: config.maxRequests,
+        windowSeconds: toSeconds(config.windowMs),
+        remaining: Math.max(0, config.maxRequests - owed),
+        resetSeconds: toSeconds(used),
+      },
+    ];
+  };
+
+  return {
+    name: "gcra",
+
+    consume: (clientId, cost, now): RateLimitDecision => {
+      const tat = Math.max(tats.get(clientId) ?? now, now);
+      const nextTat = tat + cost * emissionInterval;
+
+      if (nextTat - now > burstTolerance) {
+        const windows = getWindows(tat, now);
+        logWarn(
+          `Rate limit exceeded: ${cost} units requested, ${windows[0]?.remaining}/${config.maxBurstRequests} available`
+        );
+        return {
+          allowed: false,
+          windows,
+          limitedBy: "burst",
+          // Until enough of the bucket has refilled for this request
+          retryAfterSeconds: toSeconds(nextTat - now - burstTolerance),
+        };
+      }
+
+      tats.set(clientId, nextTat);
+      return {
+        allowed: true,
+        windows: getWindows(nextTat, now),
+        limitedBy: null,
+        retryAfterSeconds: 0,
+      };
+    },
+
+    peek: (clientId, now): RateLimitWindow[] =>
+      getWindows(tats.get(clientId) ?? now, now),
+
+    reset: (clientId): void => {
+      tats.delete(clientId);
+    },
+
+    clientCount: (): number => tats.size,
+
+    activeClientCount: (now): number => {
+      let activeClients = 0;
+      for (const tat of tats.values()) {
+        if (tat > now) {
+          activeClients++;
+        }
+      }
+      return activeClients;
+    },
+
+    sweep: (now): number => {
+      let removedCount = 0;
+      for (const [clientId, tat] of tats.entries()) {
+        if (tat <= now) {
+          tats.delete(clientId);
+          removedCount++;
+        }
+      }
+      return removedCount;
+    },
+
+    clear: (): void => {
+      tats.clear();
+    },
+  };
+};
@@ -0,0 +1,122 @@
+import { CacheHotKey } from "../types";
+
+export type CacheAccessOutcome = "hit" | "miss";
+
+interface HotKeyBucket {
+  start: number;
+  counts: Map<string, CacheHotKey>;
+}
+
+export interface HotKeyRanking {
+  mostHit: CacheHotKey[];
+  mostMissed: CacheHotKey[];
+}
+
+export interface HotKeyTracker {
+  readonly windowMs: number;
+  record(key: string, outcome: CacheAccessOutcome): void;
+  // The `limit` keys with the most hits and with the most misses
+  top(limit: number): HotKeyRanking;
+  clear(): void;
+}
+
+export interface HotKeyTrackerOptions {
+  windowMs: number;
+  bucketMs: number;
+  // Distinct keys counted per bucket; a scan over many keys stops being
+  // tracked past this instead of growing memory without bound
+  maxKeysPerBucket: number;
+}
+
+/**
+ * Counts hits and misses per key over a sliding window. The window is
+ * split into fixed buckets; each access lands in the current one, and
+ * buckets that fall out of the window are dropped whole, so the window
+ * slides in steps of one bucket.
+ */
+export const createHotKeyTracker = (
+  options: HotKeyTrackerOptions
+): HotKeyTracker => {
+  const { windowMs, bucketMs, maxKeysPerBucket } = options;
+  // Oldest first
+  const buckets: HotKeyBucket[] = [];
+
+  const dropExpiredBuckets = (now: number): void => {
+    let oldest = buckets[0];
+    while (oldest && oldest.start <= now - windowMs) {
+      buckets.shift();
+      oldest = buckets[0];
+    }
+  };
+
+  const currentBucket = (now: number): HotKeyBucket => {
+    const start = now - (now % bucketMs);
+    const last = buckets[buckets.length - 1];
+    if (last && last.start === start) {
+      return last;
+    }
+
+    const bucket: HotKeyBucket = { start, counts: new Map() };
+    buckets.push(bucket);
+    return bucket;
+  };
+
+  const rank = (
+    totals: CacheHotKey[],
+    field: "hits" | "misses",
+    limit: number
+  ): CacheHotKey[] =>
+    totals
+      .filter((item) => item[field] > 0)
+      .sort((a, b) => b[field] - a[field] || a.key.localeCompare(b.key))
+      .slice(0, limit);
+
+  return {
+    windowMs,
+
+    record: (key, outcome): void => {
+      const now = Date.now();
+      dropExpiredBuckets(now);
+
+      const { counts } = currentBucket(now);
+      let count = counts.get(key);
+      if (!count) {
+        if (counts.size >= maxKeysPerBucket) {
+          return;
+        }
+        count = { key, hits: 0, misses: 0 };
+        counts.set(key, count);
+      }
+
+      if (outcome === "hit") {
+        count.hits++;
+      } else {
+        count.misses++;
+      }
+    },
+
+    top: (limit): HotKeyRanking => {
+      dropExpiredBuckets(Date.now());
+
+      const totals = new Map<string, CacheHotKey>();
+      for (const { counts } of buckets) {
+        for (const { key, hits, misses } of counts.values()) {
+          const total = totals.get(key) ?? { key, hits: 0, misses: 0 };
+          total.hits += hits;
+          total.misses += misses;
+          totals.set(key, total);
+        }
+      }
+
+      const all = Array.from(totals.values());
+      return {
+        mostHit: rank(all, "hits", limit),
+        mostMissed: rank(all, "misses", limit),
+      };
+    },
+
+    clear: (): void => {
+      buckets.length = 0;
+    },
+  };
+};
@@ -0,0 +1,146 @@
+import { EventEmitter } from "events";
+import { CacheBackend, SharedCacheEntry } from "../types";
+import {
+  deserializeEntry,
+  InvalidationMessage,
+  serializeEntry,
+} from "../utils/cacheCodec";
+
+// Expired entries nobody reads again are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface MemoryEntry {
+  raw: string;
+  expiresAt: number;
+  tags: string[];
+}
+
+// State shared by every in-process backend, standing in for the server
+const memoryStore = new Map<string, MemoryEntry>();
+const memoryTags = new Map<string, Set<string>>();
+const memoryBus = new EventEmitter();
+let nextSweepAt = Date.now() + SWEEP_INTERVAL_MS;
+
+// Removes an entry along with its place in each of its tag sets
+const removeEntry = (key: string): void => {
+  const stored = memoryStore.get(key);
+  if (!stored) {
+    return;
+  }
+  memoryStore.delete(key);
+  for (const tag of stored.tags) {
+    const keys = memoryTags.get(tag);
+    keys?.delete(key);
+    if (keys?.size === 0) {
+      memoryTags.delete(tag);
+    }
+  }
+};
+
+const sweepExpired = (now: number): void => {
+  if (now < nextSweepAt) {
+    return;
+  }
+  nextSweepAt = now + SWEEP_INTERVAL_MS;
+  for (const [key, stored] of Array.from(memoryStore.entries())) {
+    if (stored.expiresAt <= now) {
+      removeEntry(key);
+    }
+  }
+};
+
+/**
+ * In-process stand-in for a shared backend. Backends created in the same
+ * process share one store and one invalidation channel, which is enough to
+ * exercise the two-tier logic without a Redis server.
+ */
+export const createMemoryCacheBackend = (instanceId: string): CacheBackend => {
+  // This backend's subscriptions, so closing it leaves others subscribed
+  const listeners: Array<(message: InvalidationMessage) => void> = [];
+
+  const read = (key: string): string | null => {
+    const stored = memoryStore.get(key);
+    if (stored && stored.expiresAt <= Date.now()) {
+      removeEntry(key);
+      return null;
+    }
+    return stored?.raw ?? null;
+  };
+
+  return {
+    name: "memory",
+
+    connect: async (): Promise<void> => {
+      // Nothing to connect to
+    },
+
+    get: async (key): Promise<SharedCacheEntry | null> => {
+      const raw = read(key);
+      return raw ? deserializeEntry(raw) : null;
+    },
+
+    set: async (key, entry, retentionMs): Promise<void> => {
+      const now = Date.now();
+      sweepExpired(now);
+      // The entry may be replaced with different tags
+      removeEntry(key);
+      memoryStore.set(key, {
+        raw: serializeEntry(entry),
+        expiresAt: now + retentionMs,
+        tags: entry.tags,
+      });
+      for (const tag of entry.tags) {
+        const keys = memoryTags.get(tag) ?? new Set<string>();
+        keys.add(key);
+        memoryTags.set(tag, keys);
+      }
+    },
+
+    delete: async (keys): Promise<void> => {
+      for (const key of keys) {
+        removeEntry(key);
+      }
+    },
+
+    deleteByTag: async (tag): Promise<void> => {
+      for (const key of Array.from(memoryTags.get(tag) ?? [])) {
+        removeEntry(key);
+      }
+      memoryTags.delete(tag);
+    },
+
+    deleteByPrefix: async (prefix): Promise<void> => {
+      for (const key of Array.from(memoryStore.keys())) {
+        if (key.startsWith(prefix)) {
+          removeEntry(key);
+        }
+      }
+    },
+
+    clear: async (): Promise<void> => {
+      memoryStore.clear();
+      memoryTags.clear();
+    },
+
+    publish: async (invalidation): Promise<void> => {
+      const message: InvalidationMessage = { origin: instanceId, invalidation };
+      memoryBus.emit("invalidation", message);
+    },
+
+    subscribe: async (handler): Promise<void> => {
+      const listener = (message: InvalidationMessage): void => {
+        if (message.origin !== instanceId) {
+          handler(message.invalidation);
+        }
+      };
+      memoryBus.on("invalidation", listener);
+      listeners.push(listener);
+    },
+
+    close: async (): Promise<void> => {
+      for (const listener of listeners.splice(0)) {
+        memoryBus.off("invalidation", listener);
+      }
+    },
+  };
+};
@@ -1,10 +1,25 @@
-import { User } from "../types";
+import {
+  User,
+  UserActor,
+  UserChange,
+  UserFieldChange,
+  UserListResult,
+  UserPrecondition,
+  UserRepository,
+  UserSearchResult,
+  UserVersion,
+  UserVersionAction,
+} from "../types";
+import { ConflictError, PreconditionFailedError } from "../utils/errors";
+import { queryUsers } from "./userQuery";
+import { createUserSearchIndex } from "./userSearch";
 
 export const mockUsers: Record<number, User> = {
   1: {
     id: 1,
     name: "John Doe",
     email: "john@example.com",
+    version: 1,
     createdAt: new Date("2023-01-01"),
     updatedAt: new Date("2023-01-01"),
   },
@@ -12,6 +27,7 @@ export const mockUsers: Record<number, User> = {
     id: 2,
     name: "Jane Smith",
     email: "jane@example.com",
+    version: 1,
     createdAt: new Date("2023-01-02"),
     updatedAt: new Date("2023-01-02"),
   },
@@ -19,6 +35,7 @@ export const mockUsers: Record<number, User> = {
     id: 3,
     name: "Alice Johnson",
     email: "alice@example.com",
+    version: 1,
     createdAt: new Date("2023-01-03"),
     updatedAt: new Date("2023-01-03"),
   },
@@ -26,6 +43,7 @@ export const mockUsers: Record<number, User> = {
     id: 4,
     name: "Bob Wilson",
     email: "bob@example.com",
+    version: 1,
     createdAt: new Date("2023-01-04"),
     updatedAt: new Date("2023-01-04"),
   },
@@ -33,81 +51,396 @@ export const mockUsers: Record<number, User> = {
     id: 5,
     name: "Carol Brown",
     email: "carol@example.com",
+    version: 1,
     createdAt: new Date("2023-01-05"),
     updatedAt: new Date("2023-01-05"),
   },
 };
 
-// Global users state (module-level)
-let users: Record<number, User> = { ...mockUsers };
+interface MemoryUserRepositoryOptions {
+  initialUsers?: User[];
+  // Version history per user; users without one get a synthetic "create"
+  initialHistory?: UserVersion[];
+  nextId?: number;
+  // Simulated latency per operation; set to 0 to disable
+  delays?: { read: number; write: number; delete: number };
+  onChange?: (change: UserChange) => void;
+}
+
+const MOCK_DELAYS = { read: 200, write: 150, delete: 100 };
+
+const SYSTEM_ACTOR: UserActor = { actor: "system" };
+
+// Fields compared when recording what a mutation changed
+const TRACKED_FIELDS = ["name", "email", "deletedAt"] as const;
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
 
 const simulateDatabaseDelay = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+  ms > 0
+    ? new Promise((resolve) => setTimeout(resolve, ms))
+    : Promise.resolve();
 
-export const getUserById = async (id: number): Promise<User | null> => {
-  await simulateDatabaseDelay(200);
-  const user = users[id];
-  return user ? { ...user } : null;
-};
+const toComparable = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value;
+
+const diffUsers = (before: User | null, after: User): UserFieldChange[] =>
+  TRACKED_FIELDS.flatMap((field) => {
+    const from = toComparable(before?.[field]);
+    const to = toComparable(after[field]);
+    return from === to ? [] : [{ field, from: from ?? null, to: to ?? null }];
+  });
 
-export const createUser = async (
-  userData: Omit<User, "id" | "createdAt" | "updatedAt">
-): Promise<User> => {
-  await simulateDatabaseDelay(150);
+/**
+ * In-memory user store. Used directly as the mock database and as the
+ * working set of durable stores, which persist through `onChange`. Changes
+ * are announced before they are applied, so a failed write leaves the
+ * store untouched.
+ *
+ * Deletes are soft: the record is kept with `deletedAt` set and hidden from
+ * every read, and its email is released. Each mutation appends a version to
+ * the user's history; only `purgeUser` removes a user and its history.
+ */
+export const createMemoryUserRepository = (
+  options: MemoryUserRepositoryOptions = {}
+): UserRepository => {
+  const users = new Map<number, User>();
+  const history = new Map<number, UserVersion[]>();
+  // Unique, case-insensitive secondary index over live users:
+  // normalized email -> user ID
+  const emailIndex = new Map<string, number>();
+  // Full-text index over live users' names and emails
+  const searchIndex = createUserSearchIndex();
 
-  const newId = Math.max(...Object.keys(users).map(Number)) + 1;
-  const now = new Date();
+  for (const version of options.initialHistory ?? []) {
+    const versions = history.get(version.userId) ?? [];
+    versions.push(version);
+    history.set(version.userId, versions);
+  }
 
-  const newUser: User = {
-    id: newId,
-    ...userData,
-    createdAt: now,
-    updatedAt: now,
+  for (const user of options.initialUsers ?? Object.values(mockUsers)) {
+    users.set(user.id, { ...user });
+    if (!user.deletedAt) {
+      emailIndex.set(normalizeEmail(user.email), user.id);
+      searchIndex.add(user);
+    }
+    if (!history.has(user.id)) {
+      history.set(user.id, [
+        {
+          userId: user.id,
+          version: user.version,
+          action: "create",
+          ...SYSTEM_ACTOR,
+          timestamp: user.createdAt ?? new Date(),
+          changes: diffUsers(null, user),
+          snapshot: { ...user },
+        },
+      ]);
+    }
+  }
+
+  // IDs are never reused, even after the highest one is purged
+  let highestId = 0;
+  for (const id of users.keys()) {
+    highestId = Math.max(highestId, id);
+  }
+  let nextId = Math.max(options.nextId ?? 0, highestId + 1);
+
+  const delays = options.delays ?? MOCK_DELAYS;
+
+  const getLiveUser = (id: number): User | undefined => {
+    const user = users.get(id);
+    return user && !user.deletedAt ? user : undefined;
   };
 
-  users[newId] = newUser;
-  return { ...newUser };
-};
+  const assertPrecondition = (
+    user: User,
+    precondition: UserPrecondition | undefined
+  ): void => {
+    if (precondition && !precondition(user)) {
+      throw new PreconditionFailedError(
+        `User with ID ${user.id} has changed (current version ${user.version})`
+      );
+    }
+  };
 
-export const updateUser = async (
-  id: number,
-  userData: Partial<Omit<User, "id" | "createdAt">>
-): Promise<User | null> => {
-  await simulateDatabaseDelay(150);
+  const assertEmailAvailable = (email: string, ownerId?: number): void => {
+    const existingId = emailIndex.get(normalizeEmail(email));
+    if (existingId !== undefined && existingId !== ownerId) {
+      throw new ConflictError(`Email ${email} is already in use`);
+    }
+  };
 
-  const existingUser = users[id];
-  if (!existingUser) {
-    return null;
-  }
+  // Moves the email and search indexes from one revision of a user to
+  // another
+  const reindex = (before: User | null, after: User): void => {
+    if (before && !before.deletedAt) {
+      emailIndex.delete(normalizeEmail(before.email));
+    }
+    if (!after.deletedAt) {
+      emailIndex.set(normalizeEmail(after.email), after.id);
+      searchIndex.add(after);
+    } else {
+      searchIndex.remove(after.id);
+    }
+  };
+
+  // Announces, then applies, a new revision of a user along with its
+  // version entry, keeping the email and search indexes in step
+  const commit = (
+    before: User | null,
+    after: User,
+    action: UserVersionAction,
+    actor: UserActor
+  ): User => {
+    const version: UserVersion = {
+      userId: after.id,
+      version: after.version,
+      action,
+      ...actor,
+      timestamp: after.updatedAt ?? new Date(),
+      changes: diffUsers(before, after),
+      snapshot: { ...after },
+    };
+
+    options.onChange?.({ type: "upsert", user: { ...after }, version });
+
+    users.set(after.id, after);
+    history.set(after.id, [...(history.get(after.id) ?? []), version]);
+    reindex(before, after);
 
-  const updatedUser: User = {
-    ...existingUser,
-    ...userData,
-    updatedAt: new Date(),
+    return { ...after };
   };
 
-  users[id] = updatedUser;
-  return { ...updatedUser };
-};
+  return {
+    getUserById: async (id): Promise<User | null> => {
+      await simulateDatabaseDelay(delays.read);
+      const user = getLiveUser(id);
+      return user ? { ...user } : null;
+    },
 
-export const deleteUser = async (id: number): Promise<boolean> => {
-  await simulateDatabaseDelay(100);
+    getUserByEmail: async (email): Promise<User | null> => {
+      await simulateDatabaseDelay(delays.read);
+      const id = emailIndex.get(normalizeEmail(email));
+      const user = id !== undefined ? getLiveUser(id) : undefined;
+      return user ? { ...user } : null;
+    },
 
-  if (users[id]) {
-    delete users[id];
-    return true;
-  }
-  return false;
-};
+    // One round trip for the whole set; unknown IDs are simply absent
+    getUsersByIds: async (ids): Promise<User[]> => {
+      await simulateDatabaseDelay(delays.read);
+      return ids.flatMap((id) => {
+        const user = getLiveUser(id);
+        return user ? [{ ...user }] : [];
+      });
+    },
 
-export const getAllUsers = (): User[] => {
-  return Object.values(users).map((user) => ({ ...user }));
-};
+    createUser: async (userData, actor = SYSTEM_ACTOR): Promise<User> => {
+      await simulateDatabaseDelay(delays.write);
+      assertEmailAvailable(userData.email);
 
-export const getUserCount = (): number => {
-  return Object.keys(users).length;
-};
+      const now = new Date();
+      const newUser: User = {
+        id: nextId,
+        ...userData,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const created = commit(null, newUser, "create", actor);
+      nextId++;
+      return created;
+    },
 
-export const resetUsers = (): void => {
-  users = { ...mockUsers };
+    updateUser: async (
+      id,
+      userData,
+      actor = SYSTEM_ACTOR,
+      precondition
+    ): Promise<User | null> => {
+      await simulateDatabaseDelay(delays.write);
+
+      const existingUser = getLiveUser(id);
+      if (!existingUser) {
+        return null;
+      }
+      assertPrecondition(existingUser, precondition);
+      if (userData.email !== undefined) {
+        assertEmailAvailable(userData.email, id);
+      }
+
+      return commit(
+        existingUser,
+        {
+          ...existingUser,
+          ...userData,
+          id,
+          version: existingUser.version + 1,
+          updatedAt: new Date(),
+        },
+        "update",
+        actor
+      );
+    },
+
+    deleteUser: async (
+      id,
+      actor = SYSTEM_ACTOR,
+      precondition
+    ): Promise<boolean> => {
+      await simulateDatabaseDelay(delays.delete);
+
+      const existingUser = getLiveUser(id);
+      if (!existingUser) {
+        return false;
+      }
+      assertPrecondition(existingUser, precondition);
+
+      const now = new Date();
+      commit(
+        existingUser,
+        {
+          ...existingUser,
+          version: existingUser.version + 1,
+          updatedAt: now,
+          deletedAt: now,
+        },
+        "delete",
+        actor
+      );
+      return true;
+    },
+
+    restoreUser: async (id, actor = SYSTEM_ACTOR): Promise<User | null> => {
+      await simulateDatabaseDelay(delays.write);
+
+      const existingUser = users.get(id);
+      if (!existingUser) {
+        return null;
+      }
+      if (!existingUser.deletedAt) {
+        throw new ConflictError(`User with ID ${id} is not deleted`);
+      }
+      // The email may have been taken by someone else since the delete
+      assertEmailAvailable(existingUser.email, id);
+
+      const restored: User = {
+        ...existingUser,
+        version: existingUser.version + 1,
+        updatedAt: new Date(),
+      };
+      delete restored.deletedAt;
+
+      return commit(existingUser, restored, "restore", actor);
+    },
+
+    revertUser: async (previous, currentVersion): Promise<User | null> => {
+      await simulateDatabaseDelay(delays.write);
+
+      const existingUser = users.get(previous.id);
+      if (!existingUser) {
+        return null;
+      }
+      if (existingUser.version !== currentVersion) {
+        throw new ConflictError(
+          `User with ID ${previous.id} has changed since (current version ${existingUser.version})`
+        );
+      }
+      if (!previous.deletedAt) {
+        assertEmailAvailable(previous.email, previous.id);
+      }
+
+      const reverted: User = { ...previous };
+      options.onChange?.({ type: "revert", user: { ...reverted } });
+
+      users.set(reverted.id, reverted);
+      history.set(
+        reverted.id,
+        (history.get(reverted.id) ?? []).filter(
+          (version) => version.version <= reverted.version
+        )
+      );
+      reindex(existingUser, reverted);
+
+      return { ...reverted };
+    },
+
+    purgeUser: async (id): Promise<boolean> => {
+      await simulateDatabaseDelay(delays.delete);
+
+      const existingUser = users.get(id);
+      if (!existingUser) {
+        return false;
+      }
+
+      options.onChange?.({ type: "delete", id });
+      users.delete(id);
+      history.delete(id);
+      searchIndex.remove(id);
+      if (!existingUser.deletedAt) {
+        emailIndex.delete(normalizeEmail(existingUser.email));
+      }
+      return true;
+    },
+
+    getUserHistory: async (id): Promise<UserVersion[]> => {
+      await simulateDatabaseDelay(delays.read);
+      return (history.get(id) ?? []).map((version) => ({
+        ...version,
+        snapshot: { ...version.snapshot },
+      }));
+    },
+
+    getAllUsers: async (): Promise<User[]> => {
+      return Array.from(users.values())
+        .filter((user) => !user.deletedAt)
+        .map((user) => ({ ...user }));
+    },
+
+    getUserCount: async (): Promise<number> => {
+      return emailIndex.size;
+    },
+
+    listUsers: async (listOptions): Promise<UserListResult> => {
+      const liveUsers = Array.from(users.values()).filter(
+        (user) => !user.deletedAt
+      );
+      const result = queryUsers(liveUsers, listOptions);
+      return { ...result, users: result.users.map((user) => ({ ...user })) };
+    },
+
+    // The IDs are ordered once for the whole walk; each page then copies
+    // only its own users, skipping any deleted since the walk began
+    iterateUsers: async function* (pageSize): AsyncGenerator<User[]> {
+      const ids = Array.from(users.keys()).sort((a, b) => a - b);
+      for (let start = 0; start < ids.length; start += pageSize) {
+        const page = ids.slice(start, start + pageSize).flatMap((id) => {
+          const user = getLiveUser(id);
+          return user ? [{ ...user }] : [];
+        });
+        if (page.length > 0) {
+          yield page;
+        }
+      }
+    },
+
+    searchUsers: async (searchOptions): Promise<UserSearchResult> => {
+      const { hits, total, nextCursor } = searchIndex.search(searchOptions);
+      return {
+        // The index only holds live users, but a hit that no longer
+        // resolves to one is skipped rather than returned empty
+        hits: hits.flatMap(({ id, score }) => {
+          const user = getLiveUser(id);
+          return user ? [{ user: { ...user }, score }] : [];
+        }),
+        total,
+        nextCursor,
+      };
+    },
+
+    close: async (): Promise<void> => {
+      // Nothing to release for an in-memory store
+    },
+  };
 };
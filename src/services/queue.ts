@@ -5,6 +5,11 @@ interface QueueProcessor<T> {
   (job: QueueJob): Promise<T>;
 }
 
+interface QueuedJob {
+  job: QueueJob;
+  processor: QueueProcessor<unknown>;
+}
+
 interface QueueConfig {
   maxConcurrency: number;
   retryAttempts: number;
@@ -19,9 +24,9 @@ const QUEUE_CONFIG: QueueConfig = {
 };
 
 // Global queue state
-let jobQueue: QueueJob[] = [];
-let activeJobs = new Map<string, Promise<unknown>>();
-let jobResults = new Map<
+let jobQueue: QueuedJob[] = [];
+const activeJobs = new Map<string, Promise<unknown>>();
+const jobResults = new Map<
   string,
   { result?: unknown; error?: Error; timestamp: number }
 >();
@@ -37,10 +42,11 @@ const generateJobId = (): string => {
   return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 };
 
-const createJob = (userId: number): QueueJob => {
+const createJob = (userIds: number[]): QueueJob => {
   return {
     id: generateJobId(),
-    userId,
+    userId: userIds[0] ?? 0,
+    userIds,
     timestamp: Date.now(),
     retries: 0,
   };
@@ -118,18 +124,20 @@ const executeJob = async <T>(
   }
 };
 
-const processQueue = async <T>(processor: QueueProcessor<T>): Promise<void> => {
+const processQueue = async (): Promise<void> => {
   while (jobQueue.length > 0 && activeJobs.size < QUEUE_CONFIG.maxConcurrency) {
-    const job = jobQueue.shift();
-    if (!job) continue;
+    const queued = jobQueue.shift();
+    if (!queued) continue;
+    // Each job runs with the processor it was enqueued with
+    const { job, processor } = queued;
 
     // Check if we already have a result for this user
-    const existingResult = Array.from(jobResults.values()).find((_result) => {
+    const existingResult = Array.from(jobResults.values()).find(() => {
       // Find jobs for the same user that completed recently (within 5 seconds)
       const recentJobs = Array.from(jobResults.entries()).filter(
-        ([_, result]) => Date.now() - result.timestamp < 5000
+        ([, result]) => Date.now() - result.timestamp < 5000
       );
-      return recentJobs.some(([jobId, _]) => {
+      return recentJobs.some(([jobId]) => {
         const jobData = jobId.split("_")[2]; // Extract user part from job ID
         return jobData === job.userId.toString();
       });
@@ -144,37 +152,37 @@ const processQueue = async <T>(processor: QueueProcessor<T>): Promise<void> => {
     }
 
     // Execute job
-    const jobPromise = executeJob(job, processor).finally(() => {
-      activeJobs.delete(job.id);
-      updateQueueStats();
-    });
+    const jobPromise = executeJob(job, processor)
+      .catch(() => {
+        // Failures are recorded in jobResults and surfaced to the caller
+      })
+      .finally(() => {
+        activeJobs.delete(job.id);
+        updateQueueStats();
+
+        // Pick up jobs that were waiting for a free slot
+        processQueue().catch((error) => {
+          logError("Queue processing error", error);
+        });
+      });
 
     activeJobs.set(job.id, jobPromise);
     updateQueueStats();
   }
 };
 
-export const addJob = <T>(
-  userId: number,
+const enqueue = <T>(
+  job: QueueJob,
   processor: QueueProcessor<T>
 ): Promise<T> => {
   return new Promise((resolve, reject) => {
-    const job = createJob(userId);
     queueStats.totalJobs++;
 
-    // Check if we already have a pending job for this user
-    const existingJob = jobQueue.find((j) => j.userId === userId);
-    if (existingJob) {
-      logDebug(`User ${userId} already has a pending job, queuing new job`);
-    }
-
-    jobQueue.push(job);
+    jobQueue.push({ job, processor });
     updateQueueStats();
 
-    logInfo(`Added job ${job.id} for user ${userId} to queue`);
-
     // Start processing if not already running
-    processQueue(processor).catch((error) => {
+    processQueue().catch((error) => {
       logError("Queue processing error", error);
     });
 
@@ -198,7 +206,37 @@ export const addJob = <T>(
   });
 };
 
-export const getQueueStats = () => {
+export const addJob = <T>(
+  userId: number,
+  processor: QueueProcessor<T>
+): Promise<T> => {
+  const job = createJob([userId]);
+
+  // Check if we already have a pending job for this user
+  const existingJob = jobQueue.find((queued) => queued.job.userId === userId);
+  if (existingJob) {
+    logDebug(`User ${userId} already has a pending job, queuing new job`);
+  }
+
+  logInfo(`Added job ${job.id} for user ${userId} to queue`);
+  return enqueue(job, processor);
+};
+
+/**
+ * Queues a single job covering several users, so a batch of lookups takes
+ * one queue slot and one data-access call instead of one per user.
+ */
+export const addBatchJob = <T>(
+  userIds: number[],
+  processor: QueueProcessor<T>
+): Promise<T> => {
+  const job = createJob(userIds);
+
+  logInfo(`Added batch job ${job.id} for ${userIds.length} users to queue`);
+  return enqueue(job, processor);
+};
+
+export const getQueueStats = (): typeof queueStats => {
   updateQueueStats();
   return { ...queueStats };
 };
@@ -208,7 +246,7 @@ export const getActiveJobs = (): string[] => {
 };
 
 export const getQueuedJobs = (): QueueJob[] => {
-  return [...jobQueue];
+  return jobQueue.map((queued) => queued.job);
 };
 
 export const clearQueue = (): void => {
@@ -0,0 +1,70 @@
+import { RateLimitAccessList } from "../types";
+import { createAddressMatcher } from "../utils/ipAddress";
+
+// Clients with an API key are identified, and listed, as `key:<id>`
+export const API_KEY_CLIENT_PREFIX = "key:";
+
+const isApiKeyEntry = (entry: string): boolean =>
+  entry.startsWith(API_KEY_CLIENT_PREFIX);
+
+const createEntryMatcher = (
+  entries: Iterable<string>
+): ((address: string) => boolean) =>
+  createAddressMatcher(
+    Array.from(entries).filter((entry) => !isApiKeyEntry(entry))
+  );
+
+// An IPv6 client's identity is its network; its first address stands for it
+const toAddress = (clientId: string): string => clientId.split("/")[0] ?? "";
+
+export const isValidAccessListEntry = (entry: string): boolean => {
+  if (isApiKeyEntry(entry)) {
+    return entry.length > API_KEY_CLIENT_PREFIX.length;
+  }
+  try {
+    createAddressMatcher([entry]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Builds an access list from addresses, CIDR ranges and `key:<id>` API
+ * keys. Throws on an entry that is none of these.
+ */
+export const createRateLimitAccessList = (
+  initialEntries: string[]
+): RateLimitAccessList => {
+  const entries = new Set(initialEntries);
+  let matchesAddress = createEntryMatcher(entries);
+
+  return {
+    entries: (): string[] => Array.from(entries),
+
+    add: (entry): boolean => {
+      if (entries.has(entry)) {
+        return false;
+      }
+      // Builds the new matcher first, so an invalid entry changes nothing
+      matchesAddress = createEntryMatcher([...entries, entry]);
+      entries.add(entry);
+      return true;
+    },
+
+    remove: (entry): boolean => {
+      if (!entries.delete(entry)) {
+        return false;
+      }
+      matchesAddress = createEntryMatcher(entries);
+      return true;
+    },
+
+    matches: (clientIds): boolean =>
+      clientIds.some((clientId) =>
+        isApiKeyEntry(clientId)
+          ? entries.has(clientId)
+          : matchesAddress(toAddress(clientId))
+      ),
+  };
+};
@@ -0,0 +1,210 @@
+import { RateLimitBan, RateLimitBanEvent, RateLimitBanStats } from "../types";
+import { logInfo, logWarn } from "../utils/logger";
+
+interface RateLimitBanConfig {
+  threshold: number;
+  windowMs: number;
+  baseDurationMs: number;
+  maxDurationMs: number;
+  forgetAfterMs: number;
+  maxEvents: number;
+}
+
+interface BanRecord {
+  refusals: number[]; // Times of recently refused requests
+  level: number; // Bans so far, since the client was last forgotten
+  lastBannedAt: number;
+  ban: RateLimitBan | null;
+}
+
+const parseBanThreshold = (value: string): number => {
+  const threshold = Number(value);
+  if (!Number.isInteger(threshold) || threshold < 0) {
+    throw new Error(
+      `Invalid RATE_LIMIT_BAN_THRESHOLD "${value}" (expected 0 or more)`
+    );
+  }
+  return threshold;
+};
+
+// Temporary ban configuration
+const RATE_LIMIT_BAN_CONFIG: RateLimitBanConfig = {
+  // Refused requests within `windowMs` that get a client banned; 0 turns
+  // bans off
+  threshold: parseBanThreshold(process.env["RATE_LIMIT_BAN_THRESHOLD"] || "30"),
+  windowMs: 60 * 1000, // 1 minute
+  baseDurationMs: 60 * 1000, // First ban; each further one lasts twice as long
+  maxDurationMs: 60 * 60 * 1000, // 1 hour
+  // A client that goes this long without a ban starts over at the first
+  forgetAfterMs: 24 * 60 * 60 * 1000,
+  maxEvents: 100, // Ban and unban events kept for the stats
+};
+
+const banRecords = new Map<string, BanRecord>();
+const banEvents: RateLimitBanEvent[] = [];
+let totalBans = 0;
+
+const recordBanEvent = (
+  type: RateLimitBanEvent["type"],
+  ban: RateLimitBan,
+  reason: string,
+  now: number
+): void => {
+  banEvents.push({
+    type,
+    clientId: ban.clientId,
+    level: ban.level,
+    at: new Date(now),
+    reason,
+  });
+  if (banEvents.length > RATE_LIMIT_BAN_CONFIG.maxEvents) {
+    banEvents.shift();
+  }
+
+  if (type === "ban") {
+    logWarn(`Client ${ban.clientId} banned until ${ban.until.toISOString()}`, {
+      level: ban.level,
+      reason,
+    });
+  } else {
+    logInfo(`Client ${ban.clientId} unbanned`, { level: ban.level, reason });
+  }
+};
+
+const endBan = (record: BanRecord, reason: string, now: number): void => {
+  if (record.ban) {
+    recordBanEvent("unban", record.ban, reason, now);
+    record.ban = null;
+  }
+};
+
+// Returns the client's ban if it has one that has not run out yet
+export const getActiveBan = (
+  clientId: string,
+  now: number = Date.now()
+): RateLimitBan | null => {
+  const record = banRecords.get(clientId);
+  if (!record?.ban) {
+    return null;
+  }
+  if (record.ban.until.getTime() <= now) {
+    endBan(record, "expired", now);
+    return null;
+  }
+  return record.ban;
+};
+
+/**
+ * Counts a refused request against a client and bans it once it has had
+ * `threshold` of them within `windowMs`. Each ban lasts twice as long as
+ * the one before, unless the client has gone `forgetAfterMs` without one.
+ */
+export const recordRateLimitRefusal = (
+  clientId: string,
+  now: number
+): RateLimitBan | null => {
+  const { threshold, windowMs, baseDurationMs, maxDurationMs, forgetAfterMs } =
+    RATE_LIMIT_BAN_CONFIG;
+  if (threshold === 0) {
+    return null;
+  }
+
+  let record = banRecords.get(clientId);
+  if (!record) {
+    record = { refusals: [], level: 0, lastBannedAt: 0, ban: null };
+    banRecords.set(clientId, record);
+  }
+
+  record.refusals = record.refusals.filter(
+    (timestamp) => now - timestamp < windowMs
+  );
+  record.refusals.push(now);
+  if (record.refusals.length < threshold) {
+    return null;
+  }
+
+  record.level =
+    now - record.lastBannedAt < forgetAfterMs ? record.level + 1 : 1;
+  const durationMs = Math.min(
+    baseDurationMs * 2 ** (record.level - 1),
+    maxDurationMs
+  );
+  record.ban = {
+    clientId,
+    level: record.level,
+    bannedAt: new Date(now),
+    until: new Date(now + durationMs),
+  };
+  record.lastBannedAt = now;
+  record.refusals = [];
+  totalBans++;
+
+  recordBanEvent(
+    "ban",
+    record.ban,
+    `${threshold} refused requests within ${windowMs / 1000}s`,
+    now
+  );
+  return record.ban;
+};
+
+// Ends a client's ban early; the next one still escalates from it. Returns
+// the lifted ban, or null if the client was not banned
+export const liftBan = (
+  clientId: string,
+  reason: string
+): RateLimitBan | null => {
+  const now = Date.now();
+  const ban = getActiveBan(clientId, now);
+  if (ban) {
+    endBan(banRecords.get(clientId) as BanRecord, reason, now);
+  }
+  return ban;
+};
+
+// Lifts any ban and forgets the client's refusals and earlier bans
+export const forgetBanRecord = (clientId: string, reason: string): void => {
+  liftBan(clientId, reason);
+  banRecords.delete(clientId);
+};
+
+export const getBanStats = (now: number = Date.now()): RateLimitBanStats => {
+  const active: RateLimitBan[] = [];
+  for (const clientId of banRecords.keys()) {
+    const ban = getActiveBan(clientId, now);
+    if (ban) {
+      active.push(ban);
+    }
+  }
+
+  return { active, totalBans, recentEvents: [...banEvents] };
+};
+
+// Forgets clients that are not banned and have nothing counting toward a
+// ban; returns how many were removed
+export const sweepBanRecords = (now: number): number => {
+  let removedCount = 0;
+  for (const [clientId, record] of banRecords.entries()) {
+    const banned = getActiveBan(clientId, now) !== null;
+    const recentlyRefused = record.refusals.some(
+      (timestamp) => now - timestamp < RATE_LIMIT_BAN_CONFIG.windowMs
+    );
+    const escalating =
+      now - record.lastBannedAt < RATE_LIMIT_BAN_CONFIG.forgetAfterMs;
+    if (!banned && !recentlyRefused && !escalating) {
+      banRecords.delete(clientId);
+      removedCount++;
+    }
+  }
+  return removedCount;
+};
+
+// Lifts every ban, then forgets all clients and events
+export const clearBanRecords = (reason: string): void => {
+  for (const clientId of banRecords.keys()) {
+    liftBan(clientId, reason);
+  }
+  banRecords.clear();
+  banEvents.length = 0;
+  totalBans = 0;
+};
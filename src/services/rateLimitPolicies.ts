@@ -0,0 +1,222 @@
+import fs from "fs";
+import {
+  RateLimitAccessListName,
+  RateLimitAccessLists,
+  RateLimitLimits,
+  RateLimitPoliciesConfig,
+  RateLimitPolicyConfig,
+} from "../types";
+import { logInfo } from "../utils/logger";
+import { isValidAccessListEntry } from "./rateLimitAccessList";
+
+// Every request under /api is charged against this policy
+export const DEFAULT_RATE_LIMIT_POLICY = "default";
+// Charged on top of the default for requests that change users
+export const USER_WRITE_RATE_LIMIT_POLICY = "user-write";
+// Tier of clients not listed in `clientTiers`
+export const STANDARD_RATE_LIMIT_TIER = "standard";
+
+const DEFAULT_RATE_LIMIT_POLICIES: RateLimitPoliciesConfig = {
+  policies: {
+    [DEFAULT_RATE_LIMIT_POLICY]: {
+      windowMs: 60 * 1000, // 1 minute
+      maxRequests: 100, // 100 requests per minute (increased for testing)
+      burstWindowMs: 10 * 1000, // 10 seconds (sliding log only)
+      maxBurstRequests: 20, // Burst of 20 requests (increased for testing)
+      tiers: {
+        trusted: { maxRequests: 1000, maxBurstRequests: 200 },
+      },
+    },
+    [USER_WRITE_RATE_LIMIT_POLICY]: {
+      windowMs: 60 * 1000,
+      maxRequests: 30,
+      burstWindowMs: 10 * 1000,
+      maxBurstRequests: 20, // A full bulk request (500 operations)
+      tiers: {
+        trusted: { maxRequests: 300, maxBurstRequests: 100 },
+      },
+    },
+  },
+  clientTiers: {},
+  accessLists: { allow: [], block: [] },
+};
+
+const LIMIT_FIELDS: ReadonlyArray<keyof RateLimitLimits> = [
+  "windowMs",
+  "maxRequests",
+  "burstWindowMs",
+  "maxBurstRequests",
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseLimits = (raw: unknown, path: string): Partial<RateLimitLimits> => {
+  if (!isPlainObject(raw)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  const limits: Partial<RateLimitLimits> = {};
+  for (const field of LIMIT_FIELDS) {
+    const value = raw[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      throw new Error(`${path}.${field} must be a positive integer`);
+    }
+    limits[field] = value;
+  }
+  return limits;
+};
+
+const parsePolicy = (
+  raw: unknown,
+  path: string,
+  base: RateLimitPolicyConfig
+): RateLimitPolicyConfig => {
+  const limits = parseLimits(raw, path);
+  const rawTiers = isPlainObject(raw) ? raw["tiers"] : undefined;
+  if (rawTiers === undefined) {
+    return { ...base, ...limits };
+  }
+  if (!isPlainObject(rawTiers)) {
+    throw new Error(`${path}.tiers must be an object`);
+  }
+
+  const tiers: RateLimitPolicyConfig["tiers"] = {};
+  for (const [tier, rawTier] of Object.entries(rawTiers)) {
+    tiers[tier] = parseLimits(rawTier, `${path}.tiers.${tier}`);
+  }
+
+  return { ...base, ...limits, tiers };
+};
+
+const parseClientTiers = (
+  raw: unknown
+): RateLimitPoliciesConfig["clientTiers"] => {
+  if (!isPlainObject(raw)) {
+    throw new Error("clientTiers must be an object");
+  }
+
+  const clientTiers: RateLimitPoliciesConfig["clientTiers"] = {};
+  const seen = new Map<string, string>();
+  for (const [tier, clients] of Object.entries(raw)) {
+    if (
+      !Array.isArray(clients) ||
+      !clients.every((client) => typeof client === "string")
+    ) {
+      throw new Error(`clientTiers.${tier} must be a list of clients`);
+    }
+    for (const client of clients as string[]) {
+      const other = seen.get(client);
+      if (other) {
+        throw new Error(`Client ${client} is in tiers ${other} and ${tier}`);
+      }
+      seen.set(client, tier);
+    }
+    clientTiers[tier] = clients as string[];
+  }
+  return clientTiers;
+};
+
+const ACCESS_LIST_NAMES: ReadonlyArray<RateLimitAccessListName> = [
+  "allow",
+  "block",
+];
+
+const parseAccessLists = (raw: unknown): RateLimitAccessLists => {
+  if (!isPlainObject(raw)) {
+    throw new Error("accessLists must be an object");
+  }
+
+  const accessLists: RateLimitAccessLists = { allow: [], block: [] };
+  for (const list of ACCESS_LIST_NAMES) {
+    const entries = raw[list] ?? [];
+    if (
+      !Array.isArray(entries) ||
+      !entries.every((entry) => typeof entry === "string")
+    ) {
+      throw new Error(`accessLists.${list} must be a list of entries`);
+    }
+    for (const entry of entries as string[]) {
+      if (!isValidAccessListEntry(entry)) {
+        throw new Error(
+          `accessLists.${list} entry "${entry}" is not an address, CIDR range or key:<id>`
+        );
+      }
+    }
+    accessLists[list] = entries as string[];
+  }
+  return accessLists;
+};
+
+/**
+ * Merges configured policies over the built-in ones. A policy named like a
+ * built-in one replaces only the fields it sets (`tiers`, if set, as a
+ * whole); the others take what they leave out from `default`.
+ */
+const parseRateLimitPolicies = (raw: unknown): RateLimitPoliciesConfig => {
+  if (!isPlainObject(raw)) {
+    throw new Error("expected an object");
+  }
+
+  const builtIn = DEFAULT_RATE_LIMIT_POLICIES.policies;
+  const rawPolicies = raw["policies"] ?? {};
+  if (!isPlainObject(rawPolicies)) {
+    throw new Error("policies must be an object");
+  }
+
+  const defaultPolicy = parsePolicy(
+    rawPolicies[DEFAULT_RATE_LIMIT_POLICY] ?? {},
+    `policies.${DEFAULT_RATE_LIMIT_POLICY}`,
+    builtIn[DEFAULT_RATE_LIMIT_POLICY] as RateLimitPolicyConfig
+  );
+  const policies: RateLimitPoliciesConfig["policies"] = {
+    ...builtIn,
+    [DEFAULT_RATE_LIMIT_POLICY]: defaultPolicy,
+  };
+  for (const [name, rawPolicy] of Object.entries(rawPolicies)) {
+    if (name !== DEFAULT_RATE_LIMIT_POLICY) {
+      policies[name] = parsePolicy(
+        rawPolicy,
+        `policies.${name}`,
+        builtIn[name] ?? { ...defaultPolicy, tiers: {} }
+      );
+    }
+  }
+
+  return {
+    policies,
+    clientTiers: parseClientTiers(raw["clientTiers"] ?? {}),
+    accessLists: parseAccessLists(raw["accessLists"] ?? {}),
+  };
+};
+
+/**
+ * Returns the rate limit policies, from the JSON file named by
+ * `RATE_LIMIT_POLICIES_FILE` if set. A file that cannot be read or is
+ * invalid stops startup rather than leaving the API unprotected.
+ */
+export const loadRateLimitPolicies = (): RateLimitPoliciesConfig => {
+  const file = process.env["RATE_LIMIT_POLICIES_FILE"];
+  if (!file) {
+    return DEFAULT_RATE_LIMIT_POLICIES;
+  }
+
+  try {
+    const config = parseRateLimitPolicies(
+      JSON.parse(fs.readFileSync(file, "utf8"))
+    );
+    logInfo(
+      `Loaded ${Object.keys(config.policies).length} rate limit policies from ${file}`
+    );
+    return config;
+  } catch (error) {
+    throw new Error(
+      `Invalid rate limit policies in ${file}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+};
@@ -1,188 +1,352 @@
-import { RateLimitInfo } from "../types";
-import { logDebug, logWarn } from "../utils/logger";
+import {
+  RateLimitAccessList,
+  RateLimitAccessListName,
+  RateLimitAccessLists,
+  RateLimitAlgorithm,
+  RateLimitAlgorithmName,
+  RateLimitBan,
+  RateLimitClientUsage,
+  RateLimitConfig,
+  RateLimitDecision,
+  RateLimitPolicyConfig,
+  RateLimitPolicyStats,
+  RateLimitStats,
+  RateLimitWindow,
+} from "../types";
+import { logDebug, logInfo, logWarn } from "../utils/logger";
+import {
+  ClientAddressRequest,
+  resolveClientAddress,
+  resolveClientIp,
+} from "./clientAddress";
+import { createGcraRateLimiter } from "./gcraRateLimiter";
+import {
+  API_KEY_CLIENT_PREFIX,
+  createRateLimitAccessList,
+} from "./rateLimitAccessList";
+import {
+  clearBanRecords,
+  forgetBanRecord,
+  getActiveBan,
+  getBanStats,
+  liftBan,
+  recordRateLimitRefusal,
+  sweepBanRecords,
+} from "./rateLimitBans";
+import {
+  loadRateLimitPolicies,
+  STANDARD_RATE_LIMIT_TIER,
+} from "./rateLimitPolicies";
+import { createSlidingLogRateLimiter } from "./slidingLogRateLimiter";
+
+const isRateLimitAlgorithmName = (
+  value: string
+): value is RateLimitAlgorithmName =>
+  value === "gcra" || value === "sliding-log";
+
+const getConfiguredAlgorithm = (): RateLimitAlgorithmName => {
+  const algorithm = process.env["RATE_LIMIT_ALGORITHM"] || "gcra";
+  if (!isRateLimitAlgorithmName(algorithm)) {
+    throw new Error(
+      `Unknown RATE_LIMIT_ALGORITHM "${algorithm}" (expected "gcra" or "sliding-log")`
+    );
+  }
+  return algorithm;
+};
 
-interface RateLimitEntry {
-  requests: number[];
-  burstRequests: number[];
-}
+const RATE_LIMIT_ALGORITHM = getConfiguredAlgorithm();
+const RATE_LIMIT_POLICIES = loadRateLimitPolicies();
+
+const createRateLimitAlgorithm = (
+  config: RateLimitConfig
+): RateLimitAlgorithm => {
+  switch (config.algorithm) {
+    case "gcra":
+      return createGcraRateLimiter(config);
+    case "sliding-log":
+      return createSlidingLogRateLimiter(config);
+  }
+};
 
-interface RateLimitConfig {
-  windowMs: number; // Time window in milliseconds
-  maxRequests: number; // Maximum requests per window
-  burstWindowMs: number; // Burst window in milliseconds
-  maxBurstRequests: number; // Maximum burst requests
+interface PolicyState {
+  // One limiter per tier with its own limits; clients of other tiers
+  // share the standard one
+  limiters: Map<string, RateLimitAlgorithm>;
+  configs: Map<string, RateLimitConfig>;
+  allowed: number;
+  limited: number;
+  units: number;
 }
 
-// Rate limit configuration
-const RATE_LIMIT_CONFIG: RateLimitConfig = {
-  windowMs: 60 * 1000, // 1 minute
-  maxRequests: 100, // 100 requests per minute (increased for testing)
-  burstWindowMs: 10 * 1000, // 10 seconds
-  maxBurstRequests: 20, // 20 requests per 10 seconds (increased for testing)
+const createPolicyState = ({
+  tiers,
+  ...limits
+}: RateLimitPolicyConfig): PolicyState => {
+  const state: PolicyState = {
+    limiters: new Map(),
+    configs: new Map(),
+    allowed: 0,
+    limited: 0,
+    units: 0,
+  };
+
+  const tierLimits = { [STANDARD_RATE_LIMIT_TIER]: {}, ...tiers };
+  for (const [tier, overrides] of Object.entries(tierLimits)) {
+    const config = {
+      algorithm: RATE_LIMIT_ALGORITHM,
+      ...limits,
+      ...overrides,
+    };
+    state.configs.set(tier, config);
+    state.limiters.set(tier, createRateLimitAlgorithm(config));
+  }
+  return state;
 };
 
-// Global rate limit storage (in production, this would be Redis or similar)
-let rateLimitStore = new Map<string, RateLimitEntry>();
+// Global rate limit state (in production, this would be Redis or similar)
+const policyStates = new Map(
+  Object.entries(RATE_LIMIT_POLICIES.policies).map(([name, policy]) => [
+    name,
+    createPolicyState(policy),
+  ])
+);
+
+const clientTiers = new Map(
+  Object.entries(RATE_LIMIT_POLICIES.clientTiers).flatMap(([tier, clients]) =>
+    clients.map((client) => [client, tier] as const)
+  )
+);
+
+// Changes made through the admin routes last until the next restart
+const accessLists: Record<RateLimitAccessListName, RateLimitAccessList> = {
+  allow: createRateLimitAccessList(RATE_LIMIT_POLICIES.accessLists.allow),
+  block: createRateLimitAccessList(RATE_LIMIT_POLICIES.accessLists.block),
+};
 
-const getClientIdentifier = (req: {
-  ip?: string | undefined;
-  get: (header: string) => string | undefined;
-}): string => {
-  // Try to get real IP from various headers (for reverse proxy scenarios)
-  const forwardedFor = req.get("X-Forwarded-For");
-  const realIp = req.get("X-Real-IP");
-  const clientIp =
-    forwardedFor?.split(",")[0]?.trim() || realIp || req.ip || "unknown";
+const getPolicyState = (policy: string): PolicyState => {
+  const state = policyStates.get(policy);
+  if (!state) {
+    throw new Error(`Unknown rate limit policy "${policy}"`);
+  }
+  return state;
+};
 
-  return clientIp;
+// Fails at startup for a route attached to a policy that is not configured
+export const assertRateLimitPolicy = (policy: string): void => {
+  getPolicyState(policy);
 };
 
-const cleanupExpiredRequests = (
-  requests: number[],
-  windowMs: number
-): number[] => {
-  const now = Date.now();
-  return requests.filter((timestamp) => now - timestamp < windowMs);
+/**
+ * Returns the identity a request is rate limited under: its API key if it
+ * has one, otherwise its address (see `resolveClientAddress`). Key
+ * identities look like `key:<id>`, which is also how they are listed in
+ * `clientTiers`.
+ */
+export const getClientIdentifier = (
+  req: ClientAddressRequest,
+  apiKeyId?: string
+): string =>
+  apiKeyId
+    ? `${API_KEY_CLIENT_PREFIX}${apiKeyId}`
+    : resolveClientAddress(req);
+
+// The list a client is on; being blocklisted under any of its identities
+// wins over being allowlisted under another
+const getClientAccess = (
+  clientIds: string[]
+): RateLimitAccessListName | null => {
+  if (accessLists.block.matches(clientIds)) {
+    return "block";
+  }
+  return accessLists.allow.matches(clientIds) ? "allow" : null;
 };
 
-const isRateLimited = (
-  entry: RateLimitEntry,
-  config: RateLimitConfig
-): boolean => {
-  // Clean up expired requests
-  entry.requests = cleanupExpiredRequests(entry.requests, config.windowMs);
-  entry.burstRequests = cleanupExpiredRequests(
-    entry.burstRequests,
-    config.burstWindowMs
+/**
+ * Returns the access list a request's client is on, by its API key or by
+ * its address. Addresses are matched before IPv6 clients are grouped by
+ * network, so a single IPv6 address can be listed.
+ */
+export const getRequestAccess = (
+  req: ClientAddressRequest,
+  apiKeyId?: string
+): RateLimitAccessListName | null => {
+  const address = resolveClientIp(req);
+  return getClientAccess(
+    apiKeyId ? [`${API_KEY_CLIENT_PREFIX}${apiKeyId}`, address] : [address]
   );
+};
 
-  // Check burst limit (5 requests in 10 seconds)
-  if (entry.burstRequests.length >= config.maxBurstRequests) {
-    logWarn(
-      `Burst rate limit exceeded: ${entry.burstRequests.length}/${config.maxBurstRequests} in ${config.burstWindowMs}ms`
-    );
-    return true;
-  }
+// Returns the client's temporary ban, if it has one
+export const getClientBan = (clientId: string): RateLimitBan | null =>
+  getActiveBan(clientId);
+
+const getClientTier = (clientId: string): string =>
+  clientTiers.get(clientId) ?? STANDARD_RATE_LIMIT_TIER;
+
+const getClientLimiter = (
+  state: PolicyState,
+  tier: string
+): RateLimitAlgorithm =>
+  state.limiters.get(tier) ??
+  (state.limiters.get(STANDARD_RATE_LIMIT_TIER) as RateLimitAlgorithm);
+
+/**
+ * Checks and records a request for a client (see `getClientIdentifier`)
+ * against a policy, with the limits of the client's tier. `cost` lets
+ * heavier requests consume several units of the client's allowance at
+ * once.
+ */
+export const checkRateLimit = (
+  clientId: string,
+  policy: string,
+  cost: number = 1
+): RateLimitDecision => {
+  const tier = getClientTier(clientId);
+  const state = getPolicyState(policy);
+  const now = Date.now();
 
-  // Check main rate limit (10 requests in 1 minute)
-  if (entry.requests.length >= config.maxRequests) {
+  const decision = getClientLimiter(state, tier).consume(clientId, cost, now);
+
+  if (decision.allowed) {
+    state.allowed++;
+    state.units += cost;
+    logDebug(
+      `Rate limit check passed for client: ${clientId} (policy: ${policy}, tier: ${tier})`
+    );
+  } else {
+    state.limited++;
     logWarn(
-      `Rate limit exceeded: ${entry.requests.length}/${config.maxRequests} in ${config.windowMs}ms`
+      `Rate limit check failed for client: ${clientId} (policy: ${policy}, tier: ${tier})`
     );
-    return true;
+    recordRateLimitRefusal(clientId, now);
   }
 
-  return false;
+  return decision;
 };
 
-const addRequest = (entry: RateLimitEntry, config: RateLimitConfig): void => {
-  const now = Date.now();
-
-  // Add to both windows
-  entry.requests.push(now);
-  entry.burstRequests.push(now);
-
-  // Clean up expired requests
-  entry.requests = cleanupExpiredRequests(entry.requests, config.windowMs);
-  entry.burstRequests = cleanupExpiredRequests(
-    entry.burstRequests,
-    config.burstWindowMs
-  );
+// The most units one request can be charged under a policy: a full bucket
+// for the client's tier. A request costing more could never be allowed
+export const getMaxRateLimitCost = (
+  clientId: string,
+  policy: string
+): number => {
+  const state = getPolicyState(policy);
+  const config =
+    state.configs.get(getClientTier(clientId)) ??
+    (state.configs.get(STANDARD_RATE_LIMIT_TIER) as RateLimitConfig);
+  return Math.min(config.maxRequests, config.maxBurstRequests);
 };
 
-const getRateLimitInfo = (
-  entry: RateLimitEntry,
-  config: RateLimitConfig
-): RateLimitInfo => {
-  // Clean up expired requests
-  entry.requests = cleanupExpiredRequests(entry.requests, config.windowMs);
-  entry.burstRequests = cleanupExpiredRequests(
-    entry.burstRequests,
-    config.burstWindowMs
-  );
-
-  // Calculate reset time (when the oldest request in the window expires)
+export const getRateLimitStats = (): RateLimitStats => {
   const now = Date.now();
-  const oldestRequest = Math.min(
-    ...entry.requests,
-    ...entry.burstRequests,
-    now
-  );
-
-  const resetTime = oldestRequest + config.windowMs;
+  const policies: RateLimitStats["policies"] = {};
+
+  for (const [name, state] of policyStates) {
+    const tiers: RateLimitPolicyStats["tiers"] = {};
+    for (const [tier, limiter] of state.limiters) {
+      tiers[tier] = {
+        config: state.configs.get(tier) as RateLimitConfig,
+        totalClients: limiter.clientCount(),
+        activeClients: limiter.activeClientCount(now),
+      };
+    }
+    policies[name] = {
+      allowed: state.allowed,
+      limited: state.limited,
+      units: state.units,
+      tiers,
+    };
+  }
 
   return {
-    limit: config.maxRequests,
-    remaining: Math.max(0, config.maxRequests - entry.requests.length),
-    resetTime: Math.ceil(resetTime / 1000), // Convert to seconds
+    algorithm: RATE_LIMIT_ALGORITHM,
+    clientTiers: Object.fromEntries(
+      Object.entries(RATE_LIMIT_POLICIES.clientTiers).map(
+        ([tier, clients]) => [tier, clients.length]
+      )
+    ),
+    accessLists: {
+      allow: accessLists.allow.entries().length,
+      block: accessLists.block.entries().length,
+    },
+    policies,
+    bans: getBanStats(now),
   };
 };
 
-export const checkRateLimit = (req: {
-  ip?: string | undefined;
-  get: (header: string) => string | undefined;
-}): {
-  allowed: boolean;
-  info: RateLimitInfo;
-} => {
-  const clientId = getClientIdentifier(req);
-
-  // Get or create rate limit entry for this client
-  let entry = rateLimitStore.get(clientId);
-  if (!entry) {
-    entry = {
-      requests: [],
-      burstRequests: [],
-    };
-    rateLimitStore.set(clientId, entry);
-  }
-
-  // Check if rate limited
-  const isLimited = isRateLimited(entry, RATE_LIMIT_CONFIG);
-
-  if (!isLimited) {
-    // Add the request
-    addRequest(entry, RATE_LIMIT_CONFIG);
-    logDebug(`Rate limit check passed for client: ${clientId}`);
-  } else {
-    logWarn(`Rate limit check failed for client: ${clientId}`);
+/**
+ * Returns a client's standing in every policy without charging it, e.g.
+ * `192.0.2.1` or `key:<id>`. A client the limiter does not know has its
+ * whole allowance.
+ */
+export const getClientUsage = (clientId: string): RateLimitClientUsage => {
+  const now = Date.now();
+  const tier = getClientTier(clientId);
+  const policies: Record<string, RateLimitWindow[]> = {};
+  for (const [name, state] of policyStates) {
+    policies[name] = getClientLimiter(state, tier).peek(clientId, now);
   }
 
-  const info = getRateLimitInfo(entry, RATE_LIMIT_CONFIG);
-
   return {
-    allowed: !isLimited,
-    info,
+    clientId,
+    tier,
+    access: getClientAccess([clientId]),
+    ban: getActiveBan(clientId, now),
+    policies,
   };
 };
 
-export const getRateLimitStats = (): {
-  totalClients: number;
-  activeClients: number;
-  config: RateLimitConfig;
-} => {
-  let activeClients = 0;
+// Gives a client its whole allowance back in every policy, lifts its ban
+// and forgets its earlier ones
+export const resetRateLimitClient = (clientId: string): void => {
+  for (const state of policyStates.values()) {
+    state.limiters.forEach((limiter) => limiter.reset(clientId));
+  }
+  forgetBanRecord(clientId, "client reset");
+  logInfo(`Rate limits reset for client ${clientId}`);
+};
 
-  // Count active clients (those with recent requests)
-  const now = Date.now();
-  for (const entry of rateLimitStore.values()) {
-    const recentRequests = entry.requests.filter(
-      (timestamp) => now - timestamp < RATE_LIMIT_CONFIG.windowMs
-    );
-    if (recentRequests.length > 0) {
-      activeClients++;
-    }
+// Returns the lifted ban, or null if the client was not banned
+export const liftRateLimitBan = (clientId: string): RateLimitBan | null =>
+  liftBan(clientId, "lifted by an administrator");
+
+export const getRateLimitAccessLists = (): RateLimitAccessLists => ({
+  allow: accessLists.allow.entries(),
+  block: accessLists.block.entries(),
+});
+
+// Returns false if the entry was already on the list
+export const addRateLimitAccessListEntry = (
+  list: RateLimitAccessListName,
+  entry: string
+): boolean => {
+  const added = accessLists[list].add(entry);
+  if (added) {
+    logInfo(`Added ${entry} to the rate limit ${list}list`);
   }
+  return added;
+};
 
-  return {
-    totalClients: rateLimitStore.size,
-    activeClients,
-    config: RATE_LIMIT_CONFIG,
-  };
+// Returns false if the entry was not on the list
+export const removeRateLimitAccessListEntry = (
+  list: RateLimitAccessListName,
+  entry: string
+): boolean => {
+  const removed = accessLists[list].remove(entry);
+  if (removed) {
+    logInfo(`Removed ${entry} from the rate limit ${list}list`);
+  }
+  return removed;
 };
 
 export const clearRateLimitStore = (): void => {
-  rateLimitStore.clear();
+  for (const state of policyStates.values()) {
+    state.limiters.forEach((limiter) => limiter.clear());
+    state.allowed = 0;
+    state.limited = 0;
+    state.units = 0;
+  }
+  clearBanRecords("rate limit store cleared");
   logDebug("Rate limit store cleared");
 };
 
@@ -195,20 +359,15 @@ export const startRateLimitCleanup = (): void => {
   }
 
   cleanupInterval = setInterval(() => {
+    // Remove entries that have no recent activity
     const now = Date.now();
     let removedCount = 0;
-
-    for (const [clientId, entry] of rateLimitStore.entries()) {
-      // Remove entries that have no recent activity
-      const recentRequests = entry.requests.filter(
-        (timestamp) => now - timestamp < RATE_LIMIT_CONFIG.windowMs * 2 // Keep for 2 windows
-      );
-
-      if (recentRequests.length === 0) {
-        rateLimitStore.delete(clientId);
-        removedCount++;
+    for (const state of policyStates.values()) {
+      for (const limiter of state.limiters.values()) {
+        removedCount += limiter.sweep(now);
       }
     }
+    removedCount += sweepBanRecords(now);
 
     if (removedCount > 0) {
       logDebug(`Cleaned up ${removedCount} inactive rate limit entries`);
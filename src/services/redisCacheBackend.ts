@@ -0,0 +1,179 @@
+import { createClient } from "redis";
+import { CacheBackend, CacheInvalidation, SharedCacheEntry } from "../types";
+import {
+  deserializeEntry,
+  InvalidationMessage,
+  serializeEntry,
+} from "../utils/cacheCodec";
+import { logError, logInfo, logWarn } from "../utils/logger";
+
+interface RedisCacheBackendOptions {
+  url: string;
+  namespace: string; // Prefix for every Redis key and the channel name
+  instanceId: string;
+}
+
+// Tag sets outlive their entries by at least this much, so a tag can
+// always find what it labels; longer-lived entries extend it further.
+// Members are pruned as their entries expire, so a tag that is written
+// all the time still only holds the keys that are live
+const TAG_SET_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+const SCAN_BATCH_SIZE = 100;
+
+// Keys are matched with SCAN, so glob characters in a prefix must be literal
+const escapeGlob = (value: string): string =>
+  value.replace(/[*?[\]\\]/g, "\\$&");
+
+/**
+ * Shared cache on Redis. Entries are JSON strings that expire on their
+ * own; each tag is a sorted set of the keys carrying it, scored by when
+ * each entry expires; invalidations go out on a pub/sub channel, read by
+ * a second connection as Redis requires.
+ *
+ * Commands fail fast while the connection is down instead of queueing, so
+ * a Redis outage degrades the cache to L1-only rather than stalling reads.
+ */
+export const createRedisCacheBackend = (
+  options: RedisCacheBackendOptions
+): CacheBackend => {
+  const { namespace, instanceId } = options;
+  const channel = `${namespace}invalidations`;
+  const entryKey = (key: string): string => `${namespace}entry:${key}`;
+  // Sorted sets; the `tag:` sets of earlier versions expire on their own
+  const tagKey = (tag: string): string => `${namespace}tags:${tag}`;
+
+  const client = createClient({ url: options.url, disableOfflineQueue: true });
+  const subscriber = client.duplicate();
+
+  // The client retries a lost connection on its own and reports each
+  // failed attempt; only the first of a run is worth logging
+  const reportErrors = (connection: typeof client, role: string): void => {
+    let reported = false;
+    connection.on("error", (error: unknown) => {
+      if (!reported) {
+        reported = true;
+        logWarn(`Redis cache ${role} connection failed, retrying`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+    connection.on("ready", () => {
+      if (reported) {
+        reported = false;
+        logInfo(`Redis cache ${role} connection restored`);
+      }
+    });
+  };
+  reportErrors(client, "client");
+  reportErrors(subscriber, "subscriber");
+
+  // QUIT waits for pending replies; a connection still retrying its
+  // connect is dropped instead, which also stops the retries
+  const closeConnection = async (connection: typeof client): Promise<void> => {
+    if (connection.isReady) {
+      await connection.quit();
+    } else if (connection.isOpen) {
+      await connection.disconnect();
+    }
+  };
+
+  const deleteMatching = async (pattern: string): Promise<void> => {
+    let batch: string[] = [];
+    for await (const key of client.scanIterator({
+      MATCH: pattern,
+      COUNT: SCAN_BATCH_SIZE,
+    })) {
+      batch.push(key);
+      if (batch.length >= SCAN_BATCH_SIZE) {
+        await client.del(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await client.del(batch);
+    }
+  };
+
+  return {
+    name: "redis",
+
+    connect: async (): Promise<void> => {
+      await Promise.all([client.connect(), subscriber.connect()]);
+    },
+
+    get: async (key): Promise<SharedCacheEntry | null> => {
+      const raw = await client.get(entryKey(key));
+      return raw ? deserializeEntry(raw) : null;
+    },
+
+    set: async (key, entry, retentionMs): Promise<void> => {
+      const now = Date.now();
+      const transaction = client
+        .multi()
+        .set(entryKey(key), serializeEntry(entry), { PX: retentionMs });
+      for (const tag of entry.tags) {
+        transaction
+          .zRemRangeByScore(tagKey(tag), "-inf", now)
+          .zAdd(tagKey(tag), { score: now + retentionMs, value: key })
+          .pExpire(tagKey(tag), Math.max(retentionMs, TAG_SET_TTL_MS));
+      }
+      await transaction.exec();
+    },
+
+    delete: async (keys): Promise<void> => {
+      if (keys.length === 0) {
+        return;
+      }
+      // The entries name the tag sets they have to be taken out of
+      const raws = await client.mGet(keys.map(entryKey));
+      const transaction = client.multi().del(keys.map(entryKey));
+      raws.forEach((raw, index) => {
+        const key = keys[index] as string;
+        for (const tag of raw ? deserializeEntry(raw).tags : []) {
+          transaction.zRem(tagKey(tag), key);
+        }
+      });
+      await transaction.exec();
+    },
+
+    deleteByTag: async (tag): Promise<void> => {
+      const keys = await client.zRange(tagKey(tag), 0, -1);
+      await client.del([...keys.map(entryKey), tagKey(tag)]);
+    },
+
+    deleteByPrefix: async (prefix): Promise<void> => {
+      await deleteMatching(`${escapeGlob(entryKey(prefix))}*`);
+    },
+
+    clear: async (): Promise<void> => {
+      await deleteMatching(`${escapeGlob(namespace)}*`);
+    },
+
+    publish: async (invalidation): Promise<void> => {
+      const message: InvalidationMessage = { origin: instanceId, invalidation };
+      await client.publish(channel, JSON.stringify(message));
+    },
+
+    subscribe: async (handler): Promise<void> => {
+      await subscriber.subscribe(channel, (raw) => {
+        let invalidation: CacheInvalidation;
+        try {
+          const message = JSON.parse(raw) as InvalidationMessage;
+          if (message.origin === instanceId) {
+            return;
+          }
+          invalidation = message.invalidation;
+        } catch (error) {
+          logError("Ignoring malformed cache invalidation message", error);
+          return;
+        }
+        handler(invalidation);
+      });
+    },
+
+    close: async (): Promise<void> => {
+      await Promise.all([closeConnection(subscriber), closeConnection(client)]);
+    },
+  };
+};
@@ -0,0 +1,217 @@
+import {
+  RateLimitAlgorithm,
+  RateLimitConfig,
+  RateLimitDecision,
+  RateLimitWindow,
+  RateLimitWindowName,
+} from "../types";
+import { logWarn } from "../utils/logger";
+
+interface SlidingLogEntry {
+  requests: number[];
+  burstRequests: number[];
+}
+
+const cleanupExpiredRequests = (
+  requests: number[],
+  windowMs: number,
+  now: number
+): number[] => requests.filter((timestamp) => now - timestamp < windowMs);
+
+/**
+ * Keeps a timestamp per request unit in each window and counts them. Exact,
+ * but memory and time per request grow with the limits; kept to compare
+ * against GCRA.
+ */
+export const createSlidingLogRateLimiter = (
+  config: RateLimitConfig
+): RateLimitAlgorithm => {
+  const store = new Map<string, SlidingLogEntry>();
+
+  const cleanup = (entry: SlidingLogEntry, now: number): void => {
+    entry.requests = cleanupExpiredRequests(
+      entry.requests,
+      config.windowMs,
+      now
+    );
+    entry.burstRequests = cleanupExpiredRequests(
+      entry.burstRequests,
+      config.burstWindowMs,
+      now
+    );
+  };
+
+  const toSeconds = (ms: number): number => Math.ceil(ms / 1000);
+
+  // The window that would refuse `cost` more units, if any
+  const findLimitingWindow = (
+    entry: SlidingLogEntry,
+    cost: number
+  ): RateLimitWindowName | null => {
+    if (entry.burstRequests.length + cost > config.maxBurstRequests) {
+      logWarn(
+        `Burst rate limit exceeded: ${entry.burstRequests.length}/${config.maxBurstRequests} in ${config.burstWindowMs}ms`
+      );
+      return "burst";
+    }
+
+    if (entry.requests.length + cost > config.maxRequests) {
+      logWarn(
+        `Rate limit exceeded: ${entry.requests.length}/${config.maxRequests} in ${config.windowMs}ms`
+      );
+      return "sustained";
+    }
+
+    return null;
+  };
+
+  const describeWindow = (
+    name: RateLimitWindowName,
+    requests: number[],
+    limit: number,
+    windowMs: number,
+    now: number
+  ): RateLimitWindow => {
+    // The whole limit is back once the newest request leaves the window
+    const newest = requests[requests.length - 1];
+    return {
+      name,
+      limit,
+      windowSeconds: toSeconds(windowMs),
+      remaining: Math.max(0, limit - requests.length),
+      resetSeconds:
+        newest === undefined ? 0 : toSeconds(newest + windowMs - now),
+    };
+  };
+
+  const getWindows = (
+    entry: SlidingLogEntry,
+    now: number
+  ): RateLimitWindow[] => [
+    describeWindow(
+      "burst",
+      entry.burstRequests,
+      config.maxBurstRequests,
+      config.burstWindowMs,
+      now
+    ),
+    describeWindow(
+      "sustained",
+      entry.requests,
+      config.maxRequests,
+      config.windowMs,
+      now
+    ),
+  ];
+
+  // Until enough of the oldest requests have left the window for `cost`
+  // more units; a cost over the limit never fits, so the whole window
+  const getRetryAfter = (
+    requests: number[],
+    limit: number,
+    windowMs: number,
+    cost: number,
+    now: number
+  ): number => {
+    const expiring = requests[requests.length + cost - limit - 1];
+    return toSeconds(
+      expiring === undefined ? windowMs : expiring + windowMs - now
+    );
+  };
+
+  const hasRecentRequests = (
+    entry: SlidingLogEntry,
+    windowMs: number,
+    now: number
+  ): boolean => entry.requests.some((timestamp) => now - timestamp < windowMs);
+
+  return {
+    name: "sliding-log",
+
+    consume: (clientId, cost, now): RateLimitDecision => {
+      let entry = store.get(clientId);
+      if (!entry) {
+        entry = { requests: [], burstRequests: [] };
+        store.set(clientId, entry);
+      }
+
+      cleanup(entry, now);
+      const limitedBy = findLimitingWindow(entry, cost);
+
+      if (limitedBy) {
+        return {
+          allowed: false,
+          windows: getWindows(entry, now),
+          limitedBy,
+          retryAfterSeconds:
+            limitedBy === "burst"
+              ? getRetryAfter(
+                  entry.burstRequests,
+                  config.maxBurstRequests,
+                  config.burstWindowMs,
+                  cost,
+                  now
+                )
+              : getRetryAfter(
+                  entry.requests,
+                  config.maxRequests,
+                  config.windowMs,
+                  cost,
+                  now
+                ),
+        };
+      }
+
+      // Add to both windows, once per unit of cost
+      for (let i = 0; i < cost; i++) {
+        entry.requests.push(now);
+        entry.burstRequests.push(now);
+      }
+
+      return {
+        allowed: true,
+        windows: getWindows(entry, now),
+        limitedBy: null,
+        retryAfterSeconds: 0,
+      };
+    },
+
+    peek: (clientId, now): RateLimitWindow[] => {
+      const entry = store.get(clientId) ?? { requests: [], burstRequests: [] };
+      cleanup(entry, now);
+      return getWindows(entry, now);
+    },
+
+    reset: (clientId): void => {
+      store.delete(clientId);
+    },
+
+    clientCount: (): number => store.size,
+
+    activeClientCount: (now): number => {
+      let activeClients = 0;
+      for (const entry of store.values()) {
+        if (hasRecentRequests(entry, config.windowMs, now)) {
+          activeClients++;
+        }
+      }
+      return activeClients;
+    },
+
+    sweep: (now): number => {
+      let removedCount = 0;
+      for (const [clientId, entry] of store.entries()) {
+        // Keep for 2 windows
+        if (!hasRecentRequests(entry, config.windowMs * 2, now)) {
+          store.delete(clientId);
+          removedCount++;
+        }
+      }
+      return removedCount;
+    },
+
+    clear: (): void => {
+      store.clear();
+    },
+  };
+};
@@ -0,0 +1,117 @@
+import { CacheWarmReport, User } from "../types";
+import { logError, logInfo } from "../utils/logger";
+import {
+  getMostRequestedKeys,
+  hasFreshEntry,
+  setCache,
+  setNegativeCache,
+} from "./cache";
+import { addBatchJob, addJob } from "./queue";
+import { getUserRepository } from "./userRepository";
+
+// Users are fetched this many per queue job when warming the cache
+const WARM_BATCH_SIZE = 25;
+// Warm-up jobs in flight at once, below the queue's own limit so live
+// requests still get through while the cache warms
+const WARM_CONCURRENCY = 2;
+
+const USER_CACHE_KEY_PREFIX = "user:";
+
+// Every user-derived entry carries this tag, so `DELETE /api/cache?tag=user`
+// drops them all at once
+export const USER_CACHE_TAG = "user";
+
+export const getUserCacheKey = (userId: number): string =>
+  `${USER_CACHE_KEY_PREFIX}${userId}`;
+
+export const cacheUser = (user: User): void => {
+  setCache(getUserCacheKey(user.id), user, { tags: [USER_CACHE_TAG] });
+};
+
+// Remembers that no user has this ID; caching the user replaces it
+export const cacheMissingUser = (userId: number): void => {
+  setNegativeCache(getUserCacheKey(userId), { tags: [USER_CACHE_TAG] });
+};
+
+// Fetches a user through the queue and caches it, or a tombstone if there
+// is no such user. Used both for cache misses and for refreshing stale
+// entries in the background.
+export const loadUser = async (userId: number): Promise<User> => {
+  // A missing user is a result, not a failure, so the job does not retry it
+  const userData = await addJob(userId, async (job) => {
+    logInfo(
+      `Processing database request for user ${job.userId} (job: ${job.id})`
+    );
+    return getUserRepository().getUserById(job.userId);
+  });
+
+  if (!userData) {
+    cacheMissingUser(userId);
+    throw new Error(`User with ID ${userId} not found`);
+  }
+
+  // Cache the result
+  cacheUser(userData);
+  logInfo(`User ${userId} cached for future requests`);
+
+  return userData;
+};
+
+// IDs of the users looked up most often, most requested first
+export const getMostRequestedUserIds = (limit: number): number[] =>
+  getMostRequestedKeys(limit, USER_CACHE_KEY_PREFIX)
+    .map((key) => Number(key.slice(USER_CACHE_KEY_PREFIX.length)))
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+/**
+ * Prefetches users into the cache through the queue, in batches, with at
+ * most `WARM_CONCURRENCY` batches in flight. Users already cached and
+ * fresh are skipped.
+ */
+export const warmUserCache = async (
+  ids: number[],
+  mode: CacheWarmReport["mode"]
+): Promise<CacheWarmReport> => {
+  const requested = Array.from(new Set(ids));
+  const toFetch = requested.filter((id) => !hasFreshEntry(getUserCacheKey(id)));
+  const report: CacheWarmReport = {
+    mode,
+    requested: requested.length,
+    warmed: 0,
+    alreadyCached: requested.length - toFetch.length,
+    notFound: 0,
+    failed: 0,
+  };
+
+  const batches: number[][] = [];
+  for (let i = 0; i < toFetch.length; i += WARM_BATCH_SIZE) {
+    batches.push(toFetch.slice(i, i + WARM_BATCH_SIZE));
+  }
+
+  const warmBatches = async (): Promise<void> => {
+    for (let batch = batches.shift(); batch; batch = batches.shift()) {
+      try {
+        const users = await addBatchJob(batch, (job) =>
+          getUserRepository().getUsersByIds(job.userIds)
+        );
+        users.forEach(cacheUser);
+        const found = new Set(users.map((user) => user.id));
+        batch.filter((id) => !found.has(id)).forEach(cacheMissingUser);
+        report.warmed += users.length;
+        report.notFound += batch.length - users.length;
+      } catch (error) {
+        report.failed += batch.length;
+        logError(`Failed to warm ${batch.length} users`, error);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(WARM_CONCURRENCY, batches.length) }, () =>
+      warmBatches()
+    )
+  );
+
+  logInfo(`Cache warm-up (${mode}) finished`, { ...report });
+  return report;
+};
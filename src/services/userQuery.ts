@@ -0,0 +1,144 @@
+import {
+  SortOrder,
+  User,
+  UserListCursor,
+  UserListOptions,
+  UserListResult,
+  UserSortField,
+} from "../types";
+
+const SORT_FIELDS: UserSortField[] = ["id", "name", "createdAt"];
+const SORT_ORDERS: SortOrder[] = ["asc", "desc"];
+
+export const isUserSortField = (value: unknown): value is UserSortField =>
+  SORT_FIELDS.includes(value as UserSortField);
+
+export const isSortOrder = (value: unknown): value is SortOrder =>
+  SORT_ORDERS.includes(value as SortOrder);
+
+const getSortValue = (user: User, sortBy: UserSortField): string | number => {
+  switch (sortBy) {
+    case "name":
+      return user.name.toLowerCase();
+    case "createdAt":
+      return user.createdAt ? new Date(user.createdAt).getTime() : 0;
+    default:
+      return user.id;
+  }
+};
+
+const compareValues = (a: string | number, b: string | number): number => {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+};
+
+// Compares by the sort field first and falls back to the ID, so the order is
+// total and a cursor always points at exactly one position
+const compareUsers = (
+  a: { value: string | number; id: number },
+  b: { value: string | number; id: number },
+  order: SortOrder
+): number => {
+  const result = compareValues(a.value, b.value) || a.id - b.id;
+  return order === "asc" ? result : -result;
+};
+
+// Cursors are opaque to clients: base64url-encoded JSON of the last item's
+// sort key, tied to the sort that produced them
+export const encodeCursor = (cursor: UserListCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeCursor = (encoded: string): UserListCursor | null => {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf8")
+    );
+
+    if (
+      !parsed ||
+      !isUserSortField(parsed.sortBy) ||
+      !isSortOrder(parsed.order) ||
+      typeof parsed.id !== "number" ||
+      (typeof parsed.value !== "string" && typeof parsed.value !== "number")
+    ) {
+      return null;
+    }
+
+    return {
+      sortBy: parsed.sortBy,
+      order: parsed.order,
+      value: parsed.value,
+      id: parsed.id,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const matchesFilters = (user: User, options: UserListOptions): boolean => {
+  if (
+    options.name &&
+    !user.name.toLowerCase().includes(options.name.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (
+    options.email &&
+    !user.email.toLowerCase().includes(options.email.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (options.createdFrom || options.createdTo) {
+    if (!user.createdAt) {
+      return false;
+    }
+
+    const createdAt = new Date(user.createdAt).getTime();
+
+    if (options.createdFrom && createdAt < options.createdFrom.getTime()) {
+      return false;
+    }
+
+    if (options.createdTo && createdAt > options.createdTo.getTime()) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Filters, sorts and pages a set of users. `total` counts every user that
+ * matches the filters, independent of the cursor position.
+ */
+export const queryUsers = (
+  users: User[],
+  options: UserListOptions
+): UserListResult => {
+  const { sortBy, order, limit, cursor } = options;
+
+  const matching = users
+    .filter((user) => matchesFilters(user, options))
+    .map((user) => ({ user, value: getSortValue(user, sortBy), id: user.id }))
+    .sort((a, b) => compareUsers(a, b, order));
+
+  const remaining = cursor
+    ? matching.filter((item) => compareUsers(item, cursor, order) > 0)
+    : matching;
+
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor =
+    remaining.length > limit && last
+      ? encodeCursor({ sortBy, order, value: last.value, id: last.id })
+      : null;
+
+  return {
+    users: page.map((item) => item.user),
+    total: matching.length,
+    nextCursor,
+  };
+};
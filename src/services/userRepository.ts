@@ -0,0 +1,73 @@
+import path from "path";
+import { UserRepository } from "../types";
+import { logInfo } from "../utils/logger";
+import { createFileUserRepository } from "./fileUserRepository";
+import { createMemoryUserRepository } from "./mockData";
+
+type UserStoreDriver = "memory" | "file";
+
+interface UserStoreConfig {
+  driver: string;
+  directory: string;
+  snapshotIntervalMs: number;
+  compactionThreshold: number;
+  syncAppends: boolean;
+}
+
+// User store configuration
+const USER_STORE_CONFIG: UserStoreConfig = {
+  driver: process.env["USER_STORE"] || "memory",
+  directory: process.env["USER_STORE_DIR"] || path.join(process.cwd(), "data"),
+  snapshotIntervalMs: 5 * 60 * 1000, // 5 minutes
+  compactionThreshold: 1000, // Log entries before an early compaction
+  // Flush each log entry to disk before the write completes; off trades
+  // the last few writes before a power loss for throughput
+  syncAppends: process.env["USER_STORE_SYNC"] !== "off",
+};
+
+let repository: UserRepository | null = null;
+let closed = false;
+
+const isUserStoreDriver = (value: string): value is UserStoreDriver =>
+  value === "memory" || value === "file";
+
+const createConfiguredRepository = (): UserRepository => {
+  const { driver } = USER_STORE_CONFIG;
+
+  if (!isUserStoreDriver(driver)) {
+    throw new Error(
+      `Unknown USER_STORE '${driver}'. Expected 'memory' or 'file'.`
+    );
+  }
+
+  logInfo(`Using ${driver} user store`);
+
+  if (driver === "file") {
+    return createFileUserRepository(USER_STORE_CONFIG);
+  }
+
+  return createMemoryUserRepository();
+};
+
+/**
+ * Returns the configured user repository, creating (and for durable stores,
+ * recovering) it on first use.
+ */
+export const getUserRepository = (): UserRepository => {
+  if (closed) {
+    // Reopening would start a second store behind the flushed one
+    throw new Error("User store has been closed");
+  }
+  if (!repository) {
+    repository = createConfiguredRepository();
+  }
+  return repository;
+};
+
+export const closeUserRepository = async (): Promise<void> => {
+  closed = true;
+  if (repository) {
+    await repository.close();
+    repository = null;
+  }
+};
@@ -0,0 +1,322 @@
+import { User, UserSearchCursor, UserSearchOptions } from "../types";
+
+type SearchField = "name" | "email";
+type MatchKind = "exact" | "prefix" | "fuzzy";
+
+interface RankedId {
+  id: number;
+  score: number;
+}
+
+interface RankedPage {
+  hits: RankedId[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface UserSearchIndex {
+  // Adds a user, or replaces what was indexed for it before
+  add(user: User): void;
+  remove(id: number): void;
+  search(options: UserSearchOptions): RankedPage;
+}
+
+// A name match says more about who someone is than an email match
+const FIELD_WEIGHTS: Record<SearchField, number> = { name: 2, email: 1 };
+const MATCH_WEIGHTS: Record<MatchKind, number> = {
+  exact: 3,
+  prefix: 2,
+  fuzzy: 1,
+};
+
+// Shorter prefixes match too much of the vocabulary to be useful
+const MIN_PREFIX_LENGTH = 2;
+// One typo in a shorter word usually turns it into a different word
+const MIN_FUZZY_LENGTH = 4;
+
+const MAX_QUERY_TERMS = 10;
+
+// Splits on anything that is not a letter or digit, so
+// "john.doe@example.com" indexes as john, doe, example, com
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token !== "");
+
+// Every variant of a token with one character removed; two tokens within
+// one edit of each other share at least one variant (or one is a variant
+// of the other)
+const deletionVariants = (token: string): string[] => {
+  const variants = new Set<string>();
+  for (let i = 0; i < token.length; i++) {
+    variants.add(token.slice(0, i) + token.slice(i + 1));
+  }
+  return Array.from(variants);
+};
+
+// Optimal string alignment distance, capped: returns max + 1 as soon as
+// the distance is known to exceed `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (previousRow[j] as number) + 1,
+        (row[j - 1] as number) + 1,
+        (previousRow[j - 1] as number) + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (twoBack[j - 2] as number) + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+
+  return row[b.length] as number;
+};
+
+const addToSetMap = <K, V>(map: Map<K, Set<V>>, key: K, value: V): void => {
+  const set = map.get(key) ?? new Set<V>();
+  set.add(value);
+  map.set(key, set);
+};
+
+const removeFromSetMap = <K, V>(
+  map: Map<K, Set<V>>,
+  key: K,
+  value: V
+): void => {
+  const set = map.get(key);
+  if (!set) {
+    return;
+  }
+  set.delete(value);
+  if (set.size === 0) {
+    map.delete(key);
+  }
+};
+
+// Same opaque encoding as the list cursors in userQuery.ts
+const encodeSearchCursor = (cursor: UserSearchCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeSearchCursor = (
+  encoded: string
+): UserSearchCursor | null => {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf8")
+    );
+
+    if (
+      !parsed ||
+      typeof parsed.query !== "string" ||
+      typeof parsed.score !== "number" ||
+      typeof parsed.id !== "number"
+    ) {
+      return null;
+    }
+
+    return { query: parsed.query, score: parsed.score, id: parsed.id };
+  } catch {
+    return null;
+  }
+};
+
+// Highest score first, then lowest ID, so the order is total
+const compareRanked = (a: RankedId, b: RankedId): number =>
+  b.score - a.score || a.id - b.id;
+
+/**
+ * Inverted index over user names and emails, maintained incrementally as
+ * users change so a search never scans the whole store.
+ *
+ * Besides the postings (token -> users), it keeps two lookup tables over
+ * the vocabulary: every prefix of every token, for prefix matching, and
+ * every one-character deletion of every token, for finding tokens within
+ * one typo of a query term without comparing against the whole vocabulary.
+ */
+export const createUserSearchIndex = (): UserSearchIndex => {
+  // token -> user ID -> best field weight the token appears in
+  const postings = new Map<string, Map<number, number>>();
+  const prefixes = new Map<string, Set<string>>();
+  const deletions = new Map<string, Set<string>>();
+  // What was indexed for each user, so it can be taken out again
+  const userTokens = new Map<number, Map<string, number>>();
+
+  const addToken = (token: string): void => {
+    for (let length = MIN_PREFIX_LENGTH; length < token.length; length++) {
+      addToSetMap(prefixes, token.slice(0, length), token);
+    }
+    if (token.length >= MIN_FUZZY_LENGTH) {
+      for (const variant of deletionVariants(token)) {
+        addToSetMap(deletions, variant, token);
+      }
+    }
+  };
+
+  const removeToken = (token: string): void => {
+    for (let length = MIN_PREFIX_LENGTH; length < token.length; length++) {
+      removeFromSetMap(prefixes, token.slice(0, length), token);
+    }
+    if (token.length >= MIN_FUZZY_LENGTH) {
+      for (const variant of deletionVariants(token)) {
+        removeFromSetMap(deletions, variant, token);
+      }
+    }
+  };
+
+  const remove = (id: number): void => {
+    const tokens = userTokens.get(id);
+    if (!tokens) {
+      return;
+    }
+
+    for (const token of tokens.keys()) {
+      const users = postings.get(token);
+      users?.delete(id);
+      if (users && users.size === 0) {
+        postings.delete(token);
+        removeToken(token);
+      }
+    }
+    userTokens.delete(id);
+  };
+
+  const add = (user: User): void => {
+    remove(user.id);
+
+    const tokens = new Map<string, number>();
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const token of tokenize(user[field])) {
+        tokens.set(
+          token,
+          Math.max(tokens.get(token) ?? 0, FIELD_WEIGHTS[field])
+        );
+      }
+    }
+
+    for (const [token, weight] of tokens) {
+      let users = postings.get(token);
+      if (!users) {
+        users = new Map();
+        postings.set(token, users);
+        addToken(token);
+      }
+      users.set(user.id, weight);
+    }
+    userTokens.set(user.id, tokens);
+  };
+
+  // Every indexed token a query term matches, with how it matched
+  const expandTerm = (term: string): Map<string, MatchKind> => {
+    const matches = new Map<string, MatchKind>();
+
+    if (term.length >= MIN_FUZZY_LENGTH) {
+      const candidates = new Set<string>(deletions.get(term));
+      for (const variant of deletionVariants(term)) {
+        if (postings.has(variant)) {
+          candidates.add(variant);
+        }
+        for (const token of deletions.get(variant) ?? []) {
+          candidates.add(token);
+        }
+      }
+      for (const token of candidates) {
+        if (editDistance(term, token, 1) <= 1) {
+          matches.set(token, "fuzzy");
+        }
+      }
+    }
+
+    for (const token of prefixes.get(term) ?? []) {
+      matches.set(token, "prefix");
+    }
+    if (postings.has(term)) {
+      matches.set(term, "exact");
+    }
+
+    return matches;
+  };
+
+  // Users matching every term, scored by the best match for each term
+  const rank = (query: string): RankedId[] => {
+    const terms = Array.from(new Set(tokenize(query))).slice(
+      0,
+      MAX_QUERY_TERMS
+    );
+    if (terms.length === 0) {
+      return [];
+    }
+
+    let scores: Map<number, number> | null = null;
+
+    for (const term of terms) {
+      const termScores = new Map<number, number>();
+      for (const [token, kind] of expandTerm(term)) {
+        for (const [id, weight] of postings.get(token) ?? []) {
+          const score = MATCH_WEIGHTS[kind] * weight;
+          termScores.set(id, Math.max(termScores.get(id) ?? 0, score));
+        }
+      }
+
+      const combined = new Map<number, number>();
+      for (const [id, score] of termScores) {
+        if (scores === null) {
+          combined.set(id, score);
+        } else if (scores.has(id)) {
+          combined.set(id, (scores.get(id) as number) + score);
+        }
+      }
+      scores = combined;
+
+      if (scores.size === 0) {
+        return [];
+      }
+    }
+
+    return Array.from(scores ?? [], ([id, score]) => ({ id, score })).sort(
+      compareRanked
+    );
+  };
+
+  return {
+    add,
+    remove,
+
+    search: ({ query, limit, cursor }): RankedPage => {
+      const ranked = rank(query);
+
+      const remaining = cursor
+        ? ranked.filter((item) => compareRanked(item, cursor) > 0)
+        : ranked;
+
+      const hits = remaining.slice(0, limit);
+      const last = hits[hits.length - 1];
+      const nextCursor =
+        remaining.length > limit && last
+          ? encodeSearchCursor({ query, score: last.score, id: last.id })
+          : null;
+
+      return { hits, total: ranked.length, nextCursor };
+    },
+  };
+};
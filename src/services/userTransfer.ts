@@ -0,0 +1,326 @@
+import { userInputSchema } from "../schemas/user";
+import {
+  User,
+  UserActor,
+  UserImportReport,
+  UserImportRowResult,
+  UserTransferFormat,
+  ValidationError,
+} from "../types";
+import { parseCsv, restoreFormula, toCsvRow } from "../utils/csv";
+import { ConflictError, CsvParseError } from "../utils/errors";
+import { logError, logInfo } from "../utils/logger";
+import { validate } from "../utils/validation";
+import { getUserRepository } from "./userRepository";
+
+export const MAX_IMPORT_ROWS = 10000;
+
+const EXPORT_PAGE_SIZE = 100;
+
+const EXPORT_COLUMNS = [
+  "id",
+  "name",
+  "email",
+  "version",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+// Assigned by the store, so an import ignores them; this lets an export be
+// fed straight back in
+const SYSTEM_COLUMNS = new Set<string>([
+  "id",
+  "version",
+  "createdAt",
+  "updatedAt",
+  "deletedAt",
+]);
+
+const IMPORT_COLUMNS = Object.keys(userInputSchema.fields);
+
+export type ImportRow =
+  | { line: number; input: Record<string, unknown> }
+  | { line: number; errors: ValidationError[] };
+
+export type ParsedImport =
+  { rows: ImportRow[] } | { errors: ValidationError[] };
+
+const bodyError = (rule: string, message: string): ValidationError => ({
+  location: "body",
+  field: "body",
+  rule,
+  message,
+});
+
+const formatCell = (value: User[keyof User]): string =>
+  value instanceof Date ? value.toISOString() : String(value ?? "");
+
+const formatUser = (user: User, format: UserTransferFormat): string => {
+  if (format === "csv") {
+    return toCsvRow(EXPORT_COLUMNS.map((column) => formatCell(user[column])));
+  }
+
+  const row: Partial<User> = {};
+  for (const column of EXPORT_COLUMNS) {
+    Object.assign(row, { [column]: user[column] });
+  }
+  return `${JSON.stringify(row)}\n`;
+};
+
+/**
+ * Yields an export of every live user, one page at a time, so memory use
+ * does not grow with the size of the store. Users come in ID order, from
+ * a single walk over the store.
+ */
+export const exportUsers = async function* (
+  format: UserTransferFormat
+): AsyncGenerator<string> {
+  const repository = getUserRepository();
+
+  if (format === "csv") {
+    yield toCsvRow([...EXPORT_COLUMNS]);
+  }
+
+  for await (const users of repository.iterateUsers(EXPORT_PAGE_SIZE)) {
+    yield users.map((user) => formatUser(user, format)).join("");
+  }
+};
+
+const withoutSystemFields = (
+  record: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(record).filter(([key]) => !SYSTEM_COLUMNS.has(key))
+  );
+
+const parseCsvImport = (text: string): ParsedImport => {
+  let records;
+  try {
+    records = parseCsv(text);
+  } catch (error) {
+    if (error instanceof CsvParseError) {
+      return {
+        errors: [bodyError("format", `Line ${error.line}: ${error.message}`)],
+      };
+    }
+    throw error;
+  }
+
+  const [header, ...rows] = records;
+  if (!header) {
+    return { rows: [] };
+  }
+
+  // Column problems would repeat on every row, so they reject the file
+  const columns = header.values.map((column) => column.trim());
+  const errors: ValidationError[] = [
+    ...columns
+      .filter(
+        (column) =>
+          !IMPORT_COLUMNS.includes(column) && !SYSTEM_COLUMNS.has(column)
+      )
+      .map((column) =>
+        bodyError("unknown", `Column ${column} is not an allowed field`)
+      ),
+    ...IMPORT_COLUMNS.filter((column) => !columns.includes(column)).map(
+      (column) => bodyError("required", `Column ${column} is required`)
+    ),
+  ];
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    rows: rows.map(({ line, values }) => {
+      if (values.length !== columns.length) {
+        return {
+          line,
+          errors: [
+            bodyError(
+              "format",
+              `Expected ${columns.length} values, found ${values.length}`
+            ),
+          ],
+        };
+      }
+
+      // Empty cells count as missing, like empty query parameters
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        const value = values[index];
+        if (value) {
+          record[column] = restoreFormula(value);
+        }
+      });
+      return { line, input: withoutSystemFields(record) };
+    }),
+  };
+};
+
+const parseNdjsonImport = (text: string): ParsedImport => {
+  const rows: ImportRow[] = [];
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    const line = index + 1;
+    if (content.trim() === "") {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      rows.push({
+        line,
+        errors: [bodyError("format", "Line is not valid JSON")],
+      });
+      return;
+    }
+
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      rows.push({
+        line,
+        errors: [bodyError("type", "Line must be a JSON object")],
+      });
+      return;
+    }
+    rows.push({
+      line,
+      input: withoutSystemFields(parsed as Record<string, unknown>),
+    });
+  });
+
+  return { rows };
+};
+
+export const parseImport = (
+  text: string,
+  format: UserTransferFormat
+): ParsedImport => {
+  const parsed =
+    format === "csv" ? parseCsvImport(text) : parseNdjsonImport(text);
+
+  if ("rows" in parsed && parsed.rows.length > MAX_IMPORT_ROWS) {
+    return {
+      errors: [
+        bodyError(
+          "maxItems",
+          `An import may contain at most ${MAX_IMPORT_ROWS} rows`
+        ),
+      ],
+    };
+  }
+  return parsed;
+};
+
+/**
+ * Validates each row with the same rules as `POST /api/users` and creates
+ * the valid ones in file order. A row whose email is already taken, by an
+ * existing user or an earlier row, is rejected. In a dry run nothing is
+ * written, but the report is the one a real run would produce.
+ */
+export const importUsers = async (
+  rows: ImportRow[],
+  format: UserTransferFormat,
+  dryRun: boolean,
+  actor: UserActor
+): Promise<UserImportReport> => {
+  const repository = getUserRepository();
+  const results: UserImportRowResult[] = [];
+  // Normalized email -> line that claimed it
+  const claimedEmails = new Map<string, number>();
+  const existingEmails = dryRun
+    ? new Set(
+        (await repository.getAllUsers()).map((user) => user.email.toLowerCase())
+      )
+    : null;
+
+  const reject = (line: number, errors: ValidationError[]): void => {
+    results.push({ line, status: "rejected", errors });
+  };
+
+  for (const row of rows) {
+    if ("errors" in row) {
+      reject(row.line, row.errors);
+      continue;
+    }
+
+    const result = validate(userInputSchema, row.input, "body");
+    if (!result.valid) {
+      reject(row.line, result.errors);
+      continue;
+    }
+
+    const input = result.value;
+    const claimedBy = claimedEmails.get(input.email);
+    if (claimedBy !== undefined) {
+      reject(row.line, [
+        {
+          location: "body",
+          field: "email",
+          rule: "unique",
+          message: `Email ${input.email} is already used on line ${claimedBy}`,
+        },
+      ]);
+      continue;
+    }
+    claimedEmails.set(input.email, row.line);
+
+    if (existingEmails) {
+      if (existingEmails.has(input.email)) {
+        reject(row.line, [
+          {
+            location: "body",
+            field: "email",
+            rule: "unique",
+            message: `Email ${input.email} is already in use`,
+          },
+        ]);
+      } else {
+        results.push({ line: row.line, status: "accepted" });
+      }
+      continue;
+    }
+
+    try {
+      const user = await repository.createUser(input, actor);
+      results.push({ line: row.line, status: "accepted", id: user.id });
+    } catch (error) {
+      if (!(error instanceof ConflictError)) {
+        logError(`Failed to import user on line ${row.line}`, error);
+      }
+      reject(row.line, [
+        error instanceof ConflictError
+          ? {
+              location: "body",
+              field: "email",
+              rule: "unique",
+              message: error.message,
+            }
+          : bodyError("failed", "Unexpected error while creating user"),
+      ]);
+    }
+  }
+
+  const accepted = results.filter((row) => row.status === "accepted").length;
+  const report: UserImportReport = {
+    format,
+    dryRun,
+    total: results.length,
+    accepted,
+    rejected: results.length - accepted,
+    rows: results,
+  };
+
+  logInfo(`User import processed${dryRun ? " (dry run)" : ""}`, {
+    total: report.total,
+    accepted: report.accepted,
+    rejected: report.rejected,
+  });
+
+  return report;
+};
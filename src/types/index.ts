@@ -2,41 +2,659 @@ export interface User {
   id: number;
   name: string;
   email: string;
+  version: number;
   createdAt?: Date;
   updatedAt?: Date;
+  deletedAt?: Date;
 }
 
+export type UserVersionAction = "create" | "update" | "delete" | "restore";
+
+export interface UserFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// One entry per mutation; `snapshot` is the record as it was afterwards
+export interface UserVersion {
+  userId: number;
+  version: number;
+  action: UserVersionAction;
+  actor: string;
+  // Who the actor said it was acting for (X-Actor); not verified
+  onBehalfOf?: string;
+  timestamp: Date;
+  changes: UserFieldChange[];
+  snapshot: User;
+}
+
+// Who a mutation is recorded as made by
+export type UserActor = Pick<UserVersion, "actor" | "onBehalfOf">;
+
+type SystemUserFields =
+  "id" | "version" | "createdAt" | "updatedAt" | "deletedAt";
+
+export type NewUser = Omit<User, SystemUserFields>;
+
+export type UserUpdate = Partial<Omit<User, SystemUserFields>>;
+
+export type UserInput = Pick<User, "name" | "email">;
+
+export interface UserIdParams {
+  id: number;
+}
+
+export interface UserHistoryQuery {
+  at?: Date;
+}
+
+export interface UserEmailParams {
+  email: string;
+}
+
+export interface CacheInvalidationQuery {
+  tag?: string;
+  prefix?: string;
+}
+
+// Either a list of user IDs or the `top` most requested users
+export interface CacheWarmBody {
+  ids?: number[];
+  top?: number;
+}
+
+export interface CacheWarmReport {
+  mode: "ids" | "top";
+  requested: number;
+  warmed: number;
+  alreadyCached: number;
+  notFound: number;
+  failed: number;
+}
+
+export interface CacheKeyParams {
+  key: string;
+}
+
+export interface BatchGetUsersBody {
+  ids: number[];
+}
+
+export type BatchUserResult =
+  { id: number; found: true; user: User } | { id: number; found: false };
+
+export type BulkMode = "atomic" | "best-effort";
+
+export interface BulkUsersBody {
+  operations: Record<string, unknown>[];
+  mode: BulkMode;
+}
+
+export type BulkOperationType = "create" | "update";
+
+export interface BulkCreateOperation {
+  op: "create";
+  data: Record<string, unknown>;
+}
+
+export interface BulkUpdateOperation {
+  op: "update";
+  id: number;
+  data: Record<string, unknown>;
+}
+
+export type BulkItemStatus =
+  "created" | "updated" | "invalid" | "failed" | "rolled_back" | "not_applied";
+
+export interface BulkItemResult {
+  index: number;
+  op?: BulkOperationType;
+  id?: number;
+  status: BulkItemStatus;
+  user?: User;
+  error?: string;
+  errors?: ValidationError[];
+}
+
+export interface BulkResult {
+  mode: BulkMode;
+  applied: boolean;
+  results: BulkItemResult[];
+  summary: Record<BulkItemStatus, number>;
+}
+
+export interface ListUsersQuery {
+  ids?: number[];
+  limit: number;
+  cursor?: string;
+  name?: string;
+  email?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  sortBy: UserSortField;
+  order: SortOrder;
+}
+
+// `delete` removes a user and its history for good (purge); soft deletes
+// are upserts that set `deletedAt`
+// Checked against the current record inside a conditional write
+export type UserPrecondition = (current: User) => boolean;
+
+export type UserChange =
+  | { type: "upsert"; user: User; version: UserVersion }
+  | { type: "revert"; user: User }
+  | { type: "delete"; id: number };
+
+export interface UserRepository {
+  getUserById(id: number): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>;
+  getUsersByIds(ids: number[]): Promise<User[]>;
+  createUser(userData: NewUser, actor?: UserActor): Promise<User>;
+  updateUser(
+    id: number,
+    userData: UserUpdate,
+    actor?: UserActor,
+    precondition?: UserPrecondition
+  ): Promise<User | null>;
+  deleteUser(
+    id: number,
+    actor?: UserActor,
+    precondition?: UserPrecondition
+  ): Promise<boolean>;
+  restoreUser(id: number, actor?: UserActor): Promise<User | null>;
+  // Puts a user back exactly as `previous` was, at its version, and drops
+  // the history entries written since; refuses if the user is no longer
+  // at `currentVersion`
+  revertUser(previous: User, currentVersion: number): Promise<User | null>;
+  purgeUser(id: number): Promise<boolean>;
+  getUserHistory(id: number): Promise<UserVersion[]>;
+  getAllUsers(): Promise<User[]>;
+  getUserCount(): Promise<number>;
+  listUsers(options: UserListOptions): Promise<UserListResult>;
+  // Every live user in ID order, a page at a time, in one pass
+  iterateUsers(pageSize: number): AsyncGenerator<User[]>;
+  searchUsers(options: UserSearchOptions): Promise<UserSearchResult>;
+  close(): Promise<void>;
+}
+
+export type CacheEvictionReason = "capacity" | "bytes" | "ttl";
+
 export interface CacheStats {
   hits: number;
   misses: number;
   size: number;
   maxSize: number;
+  bytes: number; // Estimated size of all entries
+  maxBytes: number | null; // null when no byte budget is configured
+  evictions: Record<CacheEvictionReason, number>;
+  staleHits: number; // Hits served between the soft and hard TTL
+  negativeHits: number; // Lookups answered by a tombstone, not in `hits`
+  revalidationFailures: number;
+  l2: CacheL2Stats;
   averageResponseTime: number;
 }
 
-export interface RateLimitInfo {
+export interface CacheL2Stats {
+  backend: string | null; // null when running with the in-process L1 only
+  hits: number;
+  misses: number;
+  errors: number;
+}
+
+export type ApiKeyScope = "users:read" | "users:write" | "admin";
+
+// An API key as listed; the key itself is only shown when issued
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  prefix: string; // First characters of the key, to tell keys apart
+  createdAt: Date;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+}
+
+// Only a SHA-256 hash of the key is stored
+export interface StoredApiKey extends ApiKey {
+  hash: string;
+}
+
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+export interface ApiKeyBody {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface ApiKeyParams {
+  id: string;
+}
+
+// Both algorithms enforce a short burst window and a longer sustained one
+export type RateLimitWindowName = "burst" | "sustained";
+
+// A client's standing in one window; times are in seconds
+export interface RateLimitWindow {
+  name: RateLimitWindowName;
+  limit: number;
+  windowSeconds: number;
+  remaining: number;
+  resetSeconds: number; // Until the whole limit is available again
+}
+
+export type RateLimitAlgorithmName = "gcra" | "sliding-log";
+
+// The sustained rate is `maxRequests` per `windowMs`. GCRA lets a client
+// spend up to `maxBurstRequests` of it at once; the sliding log allows
+// that many per `burstWindowMs`
+export interface RateLimitConfig {
+  algorithm: RateLimitAlgorithmName;
+  windowMs: number;
+  maxRequests: number;
+  burstWindowMs: number;
+  maxBurstRequests: number;
+}
+
+export type RateLimitLimits = Omit<RateLimitConfig, "algorithm">;
+
+// A named policy. Fields left out of a policy or tier fall back to the
+// `default` policy's
+export interface RateLimitPolicyConfig extends RateLimitLimits {
+  // Limits for clients in a tier, over the policy's own
+  tiers: Record<string, Partial<RateLimitLimits>>;
+}
+
+// Allowlisted clients are not rate limited; blocklisted ones are refused
+export type RateLimitAccessListName = "allow" | "block";
+
+// Entries are addresses, CIDR ranges or API keys (`key:<id>`)
+export type RateLimitAccessLists = Record<RateLimitAccessListName, string[]>;
+
+export interface RateLimitPoliciesConfig {
+  policies: Record<string, RateLimitPolicyConfig>;
+  // Client identifiers (IP addresses) in each tier
+  clientTiers: Record<string, string[]>;
+  accessLists: RateLimitAccessLists;
+}
+
+export interface RateLimitTierStats {
+  config: RateLimitConfig;
+  totalClients: number;
+  activeClients: number;
+}
+
+export interface RateLimitPolicyStats {
+  allowed: number; // Requests let through
+  limited: number; // Requests refused
+  units: number; // Units consumed; more than `allowed` with weighted requests
+  tiers: Record<string, RateLimitTierStats>;
+}
+
+// A temporary ban for repeatedly exceeding rate limits. Each ban within
+// a day of the previous one is longer, up to a maximum
+export interface RateLimitBan {
+  clientId: string;
+  level: number; // 1 for a first ban
+  bannedAt: Date;
+  until: Date;
+}
+
+export interface RateLimitBanEvent {
+  type: "ban" | "unban";
+  clientId: string;
+  level: number;
+  at: Date;
+  reason: string;
+}
+
+export interface RateLimitBanStats {
+  active: RateLimitBan[];
+  totalBans: number;
+  recentEvents: RateLimitBanEvent[]; // Newest last
+}
+
+export interface RateLimitStats {
+  algorithm: RateLimitAlgorithmName;
+  clientTiers: Record<string, number>; // Clients assigned to each tier
+  accessLists: Record<RateLimitAccessListName, number>; // Entries on each
+  policies: Record<string, RateLimitPolicyStats>;
+  bans: RateLimitBanStats;
+}
+
+// One client's standing, for administrators
+export interface RateLimitClientUsage {
+  clientId: string;
+  tier: string;
+  access: RateLimitAccessListName | null;
+  ban: RateLimitBan | null;
+  policies: Record<string, RateLimitWindow[]>;
+}
+
+export interface RateLimitClientParams {
+  clientId: string;
+}
+
+export interface RateLimitAccessListParams {
+  list: RateLimitAccessListName;
+}
+
+export interface RateLimitAccessListEntryParams {
+  list: RateLimitAccessListName;
+  entry: string;
+}
+
+export interface RateLimitAccessListBody {
+  entry: string;
+}
+
+// Body of a 429 response
+export interface RateLimitRefusal {
+  policy: string;
+  window: RateLimitWindowName;
   limit: number;
   remaining: number;
-  resetTime: number;
+  cost: number;
+  retryAfter: number; // Seconds
+}
+
+// Body of a 429 response to a banned client
+export interface RateLimitBanRefusal {
+  bannedUntil: Date;
+  retryAfter: number; // Seconds
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  windows: RateLimitWindow[];
+  // For a refused request: the window that refused it, and the seconds
+  // until it would be allowed
+  limitedBy: RateLimitWindowName | null;
+  retryAfterSeconds: number;
+}
+
+// Per-client limiter state. `now` is passed in so that every step of one
+// request sees the same time
+export interface RateLimitAlgorithm {
+  readonly name: RateLimitAlgorithmName;
+  // Records `cost` units for the client if it has them left
+  consume(clientId: string, cost: number, now: number): RateLimitDecision;
+  clientCount(): number;
+  // Clients that have used some of their allowance recently
+  activeClientCount(now: number): number;
+  // The client's standing without charging it anything
+  peek(clientId: string, now: number): RateLimitWindow[];
+  // Gives the client its whole allowance back
+  reset(clientId: string): void;
+  // Forgets idle clients and returns how many were removed
+  sweep(now: number): number;
+  clear(): void;
+}
+
+// A set of addresses, CIDR ranges and API keys that clients are matched
+// against
+export interface RateLimitAccessList {
+  entries(): string[];
+  // Both return false if there was nothing to change
+  add(entry: string): boolean;
+  remove(entry: string): boolean;
+  // Whether any of a client's identities (its key, its address) is listed
+  matches(clientIds: string[]): boolean;
+}
+
+export interface PaginationInfo {
+  limit: number;
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export type RequestLocation = "params" | "query" | "body";
+
+export interface ValidationError {
+  location: RequestLocation;
+  field: string;
+  rule: string;
+  message: string;
 }
 
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  errors?: ValidationError[];
   message?: string;
+  pagination?: PaginationInfo;
   timestamp: string;
 }
 
+export type UserSortField = "id" | "name" | "createdAt";
+
+export type SortOrder = "asc" | "desc";
+
+export interface UserListOptions {
+  limit: number;
+  cursor?: UserListCursor;
+  name?: string;
+  email?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  sortBy: UserSortField;
+  order: SortOrder;
+}
+
+export interface UserListCursor {
+  sortBy: UserSortField;
+  order: SortOrder;
+  value: string | number;
+  id: number;
+}
+
+export interface UserListResult {
+  users: User[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface UserSearchQuery {
+  q: string;
+  limit: number;
+  cursor?: string;
+}
+
+export interface UserSearchOptions {
+  query: string;
+  limit: number;
+  cursor?: UserSearchCursor;
+}
+
+// Keyset position in a ranked result list, tied to the query that produced it
+export interface UserSearchCursor {
+  query: string;
+  score: number;
+  id: number;
+}
+
+export interface UserSearchHit {
+  user: User;
+  score: number;
+}
+
+export interface UserSearchResult {
+  hits: UserSearchHit[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export type UserTransferFormat = "csv" | "ndjson";
+
+export interface UserExportQuery {
+  format: UserTransferFormat;
+}
+
+export interface UserImportQuery {
+  format?: UserTransferFormat; // Inferred from Content-Type when absent
+  dryRun: boolean;
+}
+
+export interface UserImportRowResult {
+  line: number;
+  status: "accepted" | "rejected";
+  id?: number; // Only for rows actually created
+  errors?: ValidationError[];
+}
+
+export interface UserImportReport {
+  format: UserTransferFormat;
+  dryRun: boolean;
+  total: number;
+  accepted: number;
+  rejected: number;
+  rows: UserImportRowResult[];
+}
+
 export interface CacheEntry<T> {
   value: T;
   timestamp: number;
+  ttl: number; // Soft TTL: served as fresh until then
+  hardTtl: number; // Served stale, with a background refresh, until then
+  size: number; // Estimated bytes, counted against the byte budget
+  tags: string[];
+  negative: boolean; // A tombstone: the value is known not to exist
+  hits: number; // Lookups served by this key, kept when it is re-set
+  lastAccess: number | null; // When it last served a lookup
+}
+
+export interface CacheSetOptions {
+  ttl?: number;
+  hardTtl?: number;
+  tags?: string[]; // Labels for invalidating related entries together
+}
+
+// How a cached value relates to its TTLs when it is served
+export type CacheFreshness = "fresh" | "stale";
+
+// How far downstream caches may keep a response: `public` lets shared
+// caches (a CDN) store it, `private` only the client
+export type CacheVisibility = "public" | "private" | "no-store";
+
+// How a response relates to the server-side cache, reported in the
+// X-Cache and Cache-Status headers
+export type CacheOutcome =
+  | "fresh" // Served from the cache
+  | "stale" // Served from the cache while it is refreshed
+  | "negative" // A cached not found
+  | "revalidated" // An expired copy was replaced from the database
+  | "miss" // Nothing was cached
+  | "stale-if-error"; // An expired copy, because the database failed
+
+// A negative lookup hit a tombstone: the value is known not to exist
+export type CacheLookup<T> =
+  { negative: false; value: T; freshness: CacheFreshness } | { negative: true };
+
+// An entry as stored in a shared backend; size and access statistics are
+// kept per process
+export type SharedCacheEntry = Omit<
+  CacheEntry<unknown>,
+  "size" | "hits" | "lastAccess"
+>;
+
+export interface CacheKeyListQuery {
+  limit: number;
+  cursor?: string;
+  prefix?: string;
+}
+
+export interface CacheKeyListOptions {
+  limit: number;
+  after?: string; // Key the previous page ended with
+  prefix?: string;
+}
+
+// Times are in milliseconds; remaining TTLs are 0 once passed
+export interface CacheKeyInfo {
+  key: string;
+  negative: boolean;
+  freshness: CacheFreshness | "expired";
+  age: number;
   ttl: number;
+  hardTtl: number;
+  ttlRemaining: number;
+  hardTtlRemaining: number;
+  hits: number;
+  lastAccess: Date | null;
+  size: number;
+  tags: string[];
+}
+
+export interface CacheKeyPage {
+  keys: CacheKeyInfo[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface CacheHotKeysQuery {
+  limit: number;
+}
+
+export interface CacheHotKey {
+  key: string;
+  hits: number;
+  misses: number;
+}
+
+export interface CacheHotKeyReport {
+  windowSeconds: number;
+  mostHit: CacheHotKey[];
+  mostMissed: CacheHotKey[];
+}
+
+// The L1 as written to disk on shutdown and reloaded on boot
+export interface CacheSnapshot {
+  takenAt: string;
+  entries: CacheSnapshotEntry[]; // Least recently used first
+  requestCounts: Record<string, number>;
+}
+
+export interface CacheSnapshotEntry {
+  key: string;
+  entry: SharedCacheEntry;
+}
+
+// Announced to every instance so each drops the matching L1 entries
+export type CacheInvalidation =
+  | { type: "keys"; keys: string[] }
+  | { type: "tag"; tag: string }
+  | { type: "prefix"; prefix: string }
+  | { type: "clear" };
+
+/**
+ * Shared (L2) cache store behind the per-process L1. Besides storage it
+ * carries invalidation messages between instances; an instance does not
+ * receive its own messages.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  connect(): Promise<void>;
+  get(key: string): Promise<SharedCacheEntry | null>;
+  set(key: string, entry: SharedCacheEntry, retentionMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  deleteByTag(tag: string): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<void>;
+  clear(): Promise<void>;
+  publish(invalidation: CacheInvalidation): Promise<void>;
+  subscribe(handler: (invalidation: CacheInvalidation) => void): Promise<void>;
+  close(): Promise<void>;
 }
 
 export interface QueueJob {
   id: string;
   userId: number;
+  userIds: number[];
   timestamp: number;
   retries: number;
 }
@@ -0,0 +1,30 @@
+import { CacheInvalidation, SharedCacheEntry } from "../types";
+
+const DATE_MARKER = "$date";
+
+// JSON that keeps Dates as Dates, since cached users carry timestamps
+export const stringifyWithDates = (value: unknown): string =>
+  JSON.stringify(value, function (this: Record<string, unknown>, key, item) {
+    const raw = this[key];
+    return raw instanceof Date ? { [DATE_MARKER]: raw.toISOString() } : item;
+  });
+
+export const parseWithDates = <T>(raw: string): T =>
+  JSON.parse(raw, (_key, value) =>
+    value && typeof value === "object" && typeof value[DATE_MARKER] === "string"
+      ? new Date(value[DATE_MARKER])
+      : value
+  );
+
+export const serializeEntry = (entry: SharedCacheEntry): string =>
+  stringifyWithDates(entry);
+
+export const deserializeEntry = (raw: string): SharedCacheEntry =>
+  parseWithDates<SharedCacheEntry>(raw);
+
+// What goes over the invalidation channel; `origin` lets an instance skip
+// its own messages
+export interface InvalidationMessage {
+  origin: string;
+  invalidation: CacheInvalidation;
+}
@@ -0,0 +1,111 @@
+import { neutralizeFormula, parseCsv, restoreFormula, toCsvRow } from "./csv";
+import { CsvParseError } from "./errors";
+
+const parseError = (text: string): CsvParseError | null => {
+  try {
+    parseCsv(text);
+  } catch (error) {
+    if (error instanceof CsvParseError) {
+      return error;
+    }
+    throw error;
+  }
+  return null;
+};
+
+describe("parseCsv", () => {
+  it("splits records on LF and CRLF", () => {
+    expect(
+      parseCsv("name,email\r\nAda,ada@example.com\nBob,bob@example.com")
+    ).toEqual([
+      { line: 1, values: ["name", "email"] },
+      { line: 2, values: ["Ada", "ada@example.com"] },
+      { line: 3, values: ["Bob", "bob@example.com"] },
+    ]);
+  });
+
+  it("keeps commas and doubled quotes inside quoted fields", () => {
+    expect(parseCsv('"Lovelace, Ada","She said ""hi"""\n')).toEqual([
+      { line: 1, values: ["Lovelace, Ada", 'She said "hi"'] },
+    ]);
+  });
+
+  it("lets quoted fields span lines and numbers records by their first", () => {
+    expect(parseCsv('a,"one\ntwo"\nb,c\n')).toEqual([
+      { line: 1, values: ["a", "one\ntwo"] },
+      { line: 3, values: ["b", "c"] },
+    ]);
+  });
+
+  it("reads a quoted field that is empty or ends the text", () => {
+    expect(parseCsv('""\na,""')).toEqual([
+      { line: 1, values: [""] },
+      { line: 2, values: ["a", ""] },
+    ]);
+    expect(parseCsv('a,"b"')).toEqual([{ line: 1, values: ["a", "b"] }]);
+  });
+
+  it("keeps empty fields and skips blank lines", () => {
+    expect(parseCsv("a,,\n\n\r\n,b\n")).toEqual([
+      { line: 1, values: ["a", "", ""] },
+      { line: 4, values: ["", "b"] },
+    ]);
+  });
+
+  it("refuses a quoted field that is never closed", () => {
+    const error = parseError('a,b\nc,"d\ne');
+
+    expect(error?.message).toBe("Unterminated quoted field");
+    expect(error?.line).toBe(2);
+  });
+
+  it("refuses a quote inside an unquoted field", () => {
+    const error = parseError('a,b"\n');
+
+    expect(error?.message).toBe("Unexpected quote inside a field");
+    expect(error?.line).toBe(1);
+  });
+
+  it("refuses text after a closing quote", () => {
+    const error = parseError('a\n"b"c\n');
+
+    expect(error?.message).toBe("Unexpected text after a quoted field");
+    expect(error?.line).toBe(2);
+  });
+});
+
+describe("toCsvRow", () => {
+  it("quotes fields that need it and ends rows with CRLF", () => {
+    expect(toCsvRow(["Ada", "a,b", 'say "hi"', "two\nlines"])).toBe(
+      'Ada,"a,b","say ""hi""","two\nlines"\r\n'
+    );
+  });
+
+  it("writes rows that parse back to the same values", () => {
+    const values = ["Lovelace, Ada", '"quoted"', "line\r\nbreak", ""];
+
+    expect(parseCsv(toCsvRow(values))).toEqual([{ line: 1, values }]);
+  });
+
+  it("neutralizes cells a spreadsheet would run as formulas", () => {
+    expect(toCsvRow(["=1+1", "@SUM(A1)", "Ada"])).toBe(
+      "'=1+1,'@SUM(A1),Ada\r\n"
+    );
+  });
+});
+
+describe("neutralizeFormula", () => {
+  it("prefixes formula cells with a quote", () => {
+    expect(neutralizeFormula("+1")).toBe("'+1");
+    expect(neutralizeFormula("-1")).toBe("'-1");
+    expect(neutralizeFormula("\tx")).toBe("'\tx");
+    expect(neutralizeFormula("Ada")).toBe("Ada");
+  });
+
+  it("is undone by restoreFormula", () => {
+    for (const value of ["=HYPERLINK()", "@x", "'=already quoted", "Ada"]) {
+      expect(restoreFormula(neutralizeFormula(value))).toBe(value);
+    }
+    expect(restoreFormula("'plain")).toBe("'plain");
+  });
+});
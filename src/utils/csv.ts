@@ -0,0 +1,114 @@
+import { CsvParseError } from "./errors";
+
+export interface CsvRecord {
+  line: number; // Line the record starts on, counting from 1
+  values: string[];
+}
+
+const NEEDS_QUOTING = /[",\r\n]/;
+
+export const escapeCsvField = (value: string): string =>
+  NEEDS_QUOTING.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Spreadsheets run a cell starting with one of these as a formula. Cells
+// that only look neutralized already are prefixed as well, so that
+// `restoreFormula` can tell the two apart
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+// Prefixes `'` to a cell a spreadsheet would run as a formula, so it is
+// shown as text instead (CSV injection)
+export const neutralizeFormula = (value: string): string =>
+  FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+// Undoes `neutralizeFormula`, so an exported file imports unchanged
+export const restoreFormula = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+
+export const toCsvRow = (values: string[]): string =>
+  `${values
+    .map((value) => escapeCsvField(neutralizeFormula(value)))
+    .join(",")}\r\n`;
+
+/**
+ * Parses RFC 4180 CSV: comma-separated fields, optionally double-quoted,
+ * with `""` for a literal quote inside quotes. Quoted fields may span
+ * lines, so each record carries the line it starts on. Blank lines are
+ * skipped.
+ */
+export const parseCsv = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let values: string[] = [];
+  let field = "";
+  let line = 1;
+  let recordLine = 1;
+  let quoted = false;
+  // Whether the current field was quoted, so `""` is not a blank line
+  let wasQuoted = false;
+
+  const endRecord = (): void => {
+    values.push(field);
+    const blank = values.length === 1 && values[0] === "" && !wasQuoted;
+    if (!blank) {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    field = "";
+    wasQuoted = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] as string;
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field !== "") {
+        throw new CsvParseError("Unexpected quote inside a field", line);
+      }
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === ",") {
+      values.push(field);
+      field = "";
+      wasQuoted = false;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      if (wasQuoted) {
+        throw new CsvParseError("Unexpected text after a quoted field", line);
+      }
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new CsvParseError("Unterminated quoted field", recordLine);
+  }
+  if (field !== "" || values.length > 0 || wasQuoted) {
+    endRecord();
+  }
+
+  return records;
+};
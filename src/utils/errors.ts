@@ -0,0 +1,26 @@
+// Raised by stores when a write would violate a uniqueness constraint
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+// Raised when a conditional write's precondition (If-Match) does not hold
+export class PreconditionFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreconditionFailedError";
+  }
+}
+
+// Raised for input that cannot be read as CSV at all, e.g. an unclosed quote
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number
+  ) {
+    super(message);
+    this.name = "CsvParseError";
+  }
+}
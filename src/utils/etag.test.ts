@@ -0,0 +1,97 @@
+import { createMemoryUserRepository } from "../services/mockData";
+import { User, UserRepository } from "../types";
+import {
+  buildIfMatchPrecondition,
+  getUserETag,
+  matchesIfNoneMatch,
+} from "./etag";
+import { PreconditionFailedError } from "./errors";
+
+const USER: User = {
+  id: 7,
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+  version: 3,
+};
+
+describe("getUserETag", () => {
+  it("changes with the version", () => {
+    expect(getUserETag(USER)).toBe('"user-7-v3"');
+    expect(getUserETag({ ...USER, version: 4 })).toBe('"user-7-v4"');
+  });
+});
+
+describe("matchesIfNoneMatch", () => {
+  it("compares weakly", () => {
+    expect(matchesIfNoneMatch('"user-7-v3"', '"user-7-v3"')).toBe(true);
+    expect(matchesIfNoneMatch('W/"user-7-v3"', '"user-7-v3"')).toBe(true);
+    expect(matchesIfNoneMatch('"user-7-v2"', '"user-7-v3"')).toBe(false);
+  });
+
+  it("matches any tag in a list, and anything for *", () => {
+    expect(matchesIfNoneMatch('"user-7-v1", "user-7-v3"', '"user-7-v3"')).toBe(
+      true
+    );
+    expect(matchesIfNoneMatch(" * ", '"user-7-v3"')).toBe(true);
+  });
+
+  it("matches nothing without a header", () => {
+    expect(matchesIfNoneMatch(undefined, '"user-7-v3"')).toBe(false);
+    expect(matchesIfNoneMatch("", '"user-7-v3"')).toBe(false);
+  });
+});
+
+describe("buildIfMatchPrecondition", () => {
+  it("is undefined without a header", () => {
+    expect(buildIfMatchPrecondition(undefined)).toBeUndefined();
+  });
+
+  it("compares strongly, so weak tags never match", () => {
+    expect(buildIfMatchPrecondition('"user-7-v3"')?.(USER)).toBe(true);
+    expect(buildIfMatchPrecondition('W/"user-7-v3"')?.(USER)).toBe(false);
+    expect(buildIfMatchPrecondition('"user-7-v2"')?.(USER)).toBe(false);
+  });
+
+  it("matches any tag in a list, and any record for *", () => {
+    expect(buildIfMatchPrecondition('"user-7-v2", "user-7-v3"')?.(USER)).toBe(
+      true
+    );
+    expect(buildIfMatchPrecondition("*")?.(USER)).toBe(true);
+  });
+});
+
+describe("conditional writes", () => {
+  const createRepository = (): UserRepository =>
+    createMemoryUserRepository({
+      initialUsers: [USER],
+      delays: { read: 0, write: 0, delete: 0 },
+    });
+
+  it("apply when If-Match names the current version", async () => {
+    const repository = createRepository();
+
+    const updated = await repository.updateUser(
+      USER.id,
+      { name: "Ada King" },
+      undefined,
+      buildIfMatchPrecondition('"user-7-v3"')
+    );
+
+    expect(updated).toMatchObject({ name: "Ada King", version: 4 });
+  });
+
+  it("are refused, and change nothing, for a stale version", async () => {
+    const repository = createRepository();
+    const stale = buildIfMatchPrecondition('"user-7-v2"');
+
+    await expect(
+      repository.updateUser(USER.id, { name: "Ada King" }, undefined, stale)
+    ).rejects.toThrow(PreconditionFailedError);
+    await expect(
+      repository.deleteUser(USER.id, undefined, stale)
+    ).rejects.toThrow(PreconditionFailedError);
+
+    expect(await repository.getUserById(USER.id)).toEqual(USER);
+    expect(await repository.getUserHistory(USER.id)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { User, UserPrecondition } from "../types";
+
+const WEAK_PREFIX = "W/";
+
+const parseETagList = (header: string): string[] =>
+  header
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag !== "");
+
+// A user's ETag changes with every mutation, since each one bumps `version`,
+// so it is the same whether the record came from the cache or the store
+export const getUserETag = (user: Pick<User, "id" | "version">): string =>
+  `"user-${user.id}-v${user.version}"`;
+
+/**
+ * If-None-Match uses weak comparison: `W/"x"` matches `"x"`.
+ */
+export const matchesIfNoneMatch = (
+  header: string | undefined,
+  etag: string
+): boolean => {
+  if (!header) {
+    return false;
+  }
+  if (header.trim() === "*") {
+    return true;
+  }
+  return parseETagList(header).some(
+    (tag) => tag.replace(WEAK_PREFIX, "") === etag
+  );
+};
+
+/**
+ * Turns an If-Match header into a check against the current record, or
+ * undefined when there is no header. If-Match uses strong comparison, so
+ * weak tags never match.
+ */
+export const buildIfMatchPrecondition = (
+  header: string | undefined
+): UserPrecondition | undefined => {
+  if (!header) {
+    return undefined;
+  }
+  if (header.trim() === "*") {
+    return () => true;
+  }
+
+  const tags = parseETagList(header).filter(
+    (tag) => !tag.startsWith(WEAK_PREFIX)
+  );
+  return (current) => tags.includes(getUserETag(current));
+};
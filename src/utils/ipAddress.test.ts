@@ -0,0 +1,90 @@
+import { createAddressMatcher, getIpv6Network, normalizeIp } from "./ipAddress";
+
+describe("normalizeIp", () => {
+  it("spells IPv6 addresses in lower case", () => {
+    expect(normalizeIp(" 2001:DB8::1 ")).toBe("2001:db8::1");
+  });
+
+  it("turns IPv4-mapped IPv6 addresses into IPv4", () => {
+    expect(normalizeIp("::FFFF:192.0.2.1")).toBe("192.0.2.1");
+  });
+
+  it("returns null for anything that is not an address", () => {
+    expect(normalizeIp("unknown")).toBeNull();
+    expect(normalizeIp("192.0.2.1:8080")).toBeNull();
+    expect(normalizeIp("")).toBeNull();
+  });
+});
+
+describe("createAddressMatcher", () => {
+  const matches = createAddressMatcher([
+    "10.0.0.0/8",
+    "192.0.2.7",
+    "2001:db8::/32",
+  ]);
+
+  it("matches addresses inside an IPv4 range", () => {
+    expect(matches("10.255.0.1")).toBe(true);
+    expect(matches("11.0.0.1")).toBe(false);
+  });
+
+  it("matches single addresses exactly", () => {
+    expect(matches("192.0.2.7")).toBe(true);
+    expect(matches("192.0.2.8")).toBe(false);
+  });
+
+  it("matches IPv4-mapped addresses against IPv4 entries", () => {
+    expect(matches("::ffff:10.0.0.1")).toBe(true);
+  });
+
+  it("matches addresses inside an IPv6 range", () => {
+    expect(matches("2001:db8:ffff::1")).toBe(true);
+    expect(matches("2001:db9::1")).toBe(false);
+  });
+
+  it("matches nothing that is not an address", () => {
+    expect(matches("unknown")).toBe(false);
+  });
+
+  it("throws on entries that are not an address or CIDR range", () => {
+    expect(() => createAddressMatcher(["not-an-address"])).toThrow(
+      'Invalid address or CIDR range "not-an-address"'
+    );
+    expect(() => createAddressMatcher(["10.0.0.0/33"])).toThrow(
+      "Invalid prefix length"
+    );
+    expect(() => createAddressMatcher(["2001:db8::/129"])).toThrow(
+      "Invalid prefix length"
+    );
+    expect(() => createAddressMatcher(["10.0.0.0/x"])).toThrow(
+      "Invalid prefix length"
+    );
+  });
+});
+
+describe("getIpv6Network", () => {
+  it("groups the addresses of a /64 under one network", () => {
+    const network = "2001:db8:1:2:0:0:0:0/64";
+
+    expect(getIpv6Network("2001:db8:1:2:3:4:5:6", 64)).toBe(network);
+    expect(getIpv6Network("2001:db8:1:2::ffff", 64)).toBe(network);
+    expect(getIpv6Network("2001:db8:1:3::1", 64)).not.toBe(network);
+  });
+
+  it("expands `::` anywhere in the address", () => {
+    expect(getIpv6Network("2001:db8::1", 64)).toBe("2001:db8:0:0:0:0:0:0/64");
+    expect(getIpv6Network("::1", 128)).toBe("0:0:0:0:0:0:0:1/128");
+  });
+
+  it("masks prefixes that end inside a group", () => {
+    expect(getIpv6Network("2001:db8:1:2ff::1", 56)).toBe(
+      "2001:db8:1:200:0:0:0:0/56"
+    );
+  });
+
+  it("reads a trailing dotted IPv4 part as two groups", () => {
+    expect(getIpv6Network("64:ff9b::192.0.2.1", 128)).toBe(
+      "64:ff9b:0:0:0:0:c000:201/128"
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { BlockList, isIP, isIPv4 } from "net";
+
+const IPV4_MAPPED_PREFIX = "::ffff:";
+const IPV6_GROUPS = 8;
+
+/**
+ * Returns the address in one canonical spelling, or null if it is not an
+ * IP address. IPv4-mapped IPv6 addresses become plain IPv4, so a client
+ * has the same identity on a dual-stack socket.
+ */
+export const normalizeIp = (address: string): string | null => {
+  const lower = address.trim().toLowerCase();
+  if (lower.startsWith(IPV4_MAPPED_PREFIX)) {
+    const mapped = lower.slice(IPV4_MAPPED_PREFIX.length);
+    if (isIPv4(mapped)) {
+      return mapped;
+    }
+  }
+  return isIP(lower) ? lower : null;
+};
+
+/**
+ * Builds a matcher for a list of addresses and CIDR ranges, e.g.
+ * `10.0.0.0/8` or `2001:db8::/32`. Throws on an entry that is neither.
+ */
+export const createAddressMatcher = (
+  entries: string[]
+): ((address: string) => boolean) => {
+  const blockList = new BlockList();
+
+  for (const entry of entries) {
+    const [rawAddress = "", rawPrefix] = entry.trim().split("/");
+    const address = normalizeIp(rawAddress);
+    if (!address) {
+      throw new Error(`Invalid address or CIDR range "${entry}"`);
+    }
+
+    const family = isIPv4(address) ? "ipv4" : "ipv6";
+    if (rawPrefix === undefined) {
+      blockList.addAddress(address, family);
+      continue;
+    }
+
+    const prefix = Number(rawPrefix);
+    const maxPrefix = family === "ipv4" ? 32 : 128;
+    if (!/^\d+$/.test(rawPrefix) || prefix > maxPrefix) {
+      throw new Error(`Invalid prefix length in CIDR range "${entry}"`);
+    }
+    blockList.addSubnet(address, prefix, family);
+  }
+
+  return (address: string): boolean => {
+    const normalized = normalizeIp(address);
+    return normalized !== null
+      ? blockList.check(normalized, isIPv4(normalized) ? "ipv4" : "ipv6")
+      : false;
+  };
+};
+
+// The eight 16-bit groups of an IPv6 address, expanding `::` and a
+// trailing dotted IPv4 part
+const toIpv6Groups = (address: string): number[] => {
+  const [head = "", tail] = address.split("::");
+  const parse = (part: string): number[] =>
+    part === ""
+      ? []
+      : part.split(":").flatMap((group) => {
+          if (!isIPv4(group)) {
+            return [parseInt(group, 16)];
+          }
+          const [a = 0, b = 0, c = 0, d = 0] = group.split(".").map(Number);
+          return [(a << 8) | b, (c << 8) | d];
+        });
+
+  const headGroups = parse(head);
+  if (tail === undefined) {
+    return headGroups;
+  }
+  const tailGroups = parse(tail);
+  const zeros = IPV6_GROUPS - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array<number>(zeros).fill(0), ...tailGroups];
+};
+
+/**
+ * Returns the network of the given prefix length that an IPv6 address is
+ * in, e.g. `2001:db8:1:2:0:0:0:0/64`. Hosts usually get a whole /64, so
+ * limiting per address would let one host rotate through many.
+ */
+export const getIpv6Network = (address: string, prefix: number): string => {
+  const groups = toIpv6Groups(address).map((group, index) => {
+    const bits = Math.min(16, Math.max(0, prefix - index * 16));
+    const mask = bits === 0 ? 0 : (0xffff << (16 - bits)) & 0xffff;
+    return (group & mask).toString(16);
+  });
+  return `${groups.join(":")}/${prefix}`;
+};
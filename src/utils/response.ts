@@ -1,5 +1,11 @@
 import { Response } from "express";
-import { ApiResponse } from "../types";
+import {
+  ApiResponse,
+  PaginationInfo,
+  RateLimitBanRefusal,
+  RateLimitRefusal,
+  ValidationError,
+} from "../types";
 
 export class ResponseHelper {
   public static success<T>(
@@ -17,6 +23,27 @@ export class ResponseHelper {
     res.status(statusCode).json(response);
   }
 
+  public static paginated<T>(
+    res: Response,
+    data: T[],
+    pagination: PaginationInfo,
+    message?: string
+  ): void {
+    const response: ApiResponse<T[]> = {
+      success: true,
+      data,
+      ...(message && { message }),
+      pagination,
+      timestamp: new Date().toISOString(),
+    };
+    res.status(200).json(response);
+  }
+
+  // 304 responses carry no body
+  public static notModified(res: Response): void {
+    res.status(304).end();
+  }
+
   public static error(
     res: Response,
     error: string,
@@ -32,6 +59,21 @@ export class ResponseHelper {
     res.status(statusCode).json(response);
   }
 
+  public static unauthorized(
+    res: Response,
+    message: string = "Authentication required"
+  ): void {
+    res.set("WWW-Authenticate", 'Bearer realm="user-data-api"');
+    this.error(res, message, 401);
+  }
+
+  public static forbidden(
+    res: Response,
+    message: string = "Insufficient permissions"
+  ): void {
+    this.error(res, message, 403);
+  }
+
   public static notFound(
     res: Response,
     message: string = "Resource not found"
@@ -46,11 +88,43 @@ export class ResponseHelper {
     this.error(res, message, 400);
   }
 
+  public static conflict(
+    res: Response,
+    message: string = "Resource already exists"
+  ): void {
+    this.error(res, message, 409);
+  }
+
+  public static preconditionFailed(
+    res: Response,
+    message: string = "Precondition failed"
+  ): void {
+    this.error(res, message, 412);
+  }
+
+  public static validationError(
+    res: Response,
+    errors: ValidationError[],
+    message: string = "Validation failed"
+  ): void {
+    const response: ApiResponse = {
+      success: false,
+      error: message,
+      errors,
+      timestamp: new Date().toISOString(),
+    };
+    res.status(400).json(response);
+  }
+
   public static rateLimitExceeded(
     res: Response,
-    message: string = "Rate limit exceeded"
+    message: string = "Rate limit exceeded",
+    refusal?: RateLimitRefusal | RateLimitBanRefusal
   ): void {
-    this.error(res, message, 429);
+    if (refusal) {
+      res.set("Retry-After", String(refusal.retryAfter));
+    }
+    this.error(res, message, 429, refusal);
   }
 
   public static internalError(
@@ -0,0 +1,357 @@
+import { RequestLocation, ValidationError } from "../types";
+
+interface BaseRule {
+  required?: boolean;
+}
+
+export interface StringRule extends BaseRule {
+  type: "string";
+  minLength?: number;
+  maxLength?: number;
+  format?: "email";
+  enum?: readonly string[];
+  trim?: boolean; // Applied before length checks
+  lowercase?: boolean;
+  default?: string;
+}
+
+export interface IntegerRule extends BaseRule {
+  type: "integer";
+  min?: number;
+  max?: number;
+  default?: number;
+}
+
+export interface DateRule extends BaseRule {
+  type: "date";
+}
+
+export interface BooleanRule extends BaseRule {
+  type: "boolean";
+  default?: boolean;
+}
+
+// Accepts any plain object; its contents are validated separately
+export interface ObjectRule extends BaseRule {
+  type: "object";
+}
+
+export interface ArrayRule extends BaseRule {
+  type: "array";
+  items: IntegerRule | StringRule | ObjectRule;
+  minItems?: number;
+  maxItems?: number;
+}
+
+// Ties each field's rule to the TypeScript type of the property it checks
+export type FieldRule<V> =
+  NonNullable<V> extends readonly unknown[]
+    ? ArrayRule
+    : NonNullable<V> extends string
+      ? StringRule
+      : NonNullable<V> extends number
+        ? IntegerRule
+        : NonNullable<V> extends Date
+          ? DateRule
+          : NonNullable<V> extends boolean
+            ? BooleanRule
+            : NonNullable<V> extends object
+              ? ObjectRule
+              : never;
+
+type AnyRule =
+  StringRule | IntegerRule | DateRule | BooleanRule | ArrayRule | ObjectRule;
+
+export interface ObjectSchema<T> {
+  fields: { [K in keyof T]-?: FieldRule<T[K]> };
+  minFields?: number; // Minimum number of fields that must be present
+}
+
+export type ValidationResult<T> =
+  { valid: true; value: T } | { valid: false; errors: ValidationError[] };
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const INTEGER_REGEX = /^-?\d+$/;
+
+type FieldOutcome =
+  { ok: true; value: unknown } | { ok: false; rule: string; message: string };
+
+const fail = (rule: string, message: string): FieldOutcome => ({
+  ok: false,
+  rule,
+  message,
+});
+
+const checkString = (
+  field: string,
+  rule: StringRule,
+  raw: unknown
+): FieldOutcome => {
+  if (typeof raw !== "string") {
+    return fail("type", `${field} must be a string`);
+  }
+
+  let value = rule.trim ? raw.trim() : raw;
+  if (rule.lowercase) {
+    value = value.toLowerCase();
+  }
+
+  if (rule.minLength !== undefined && value.length < rule.minLength) {
+    return fail(
+      "minLength",
+      `${field} must be at least ${rule.minLength} characters`
+    );
+  }
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return fail(
+      "maxLength",
+      `${field} must be at most ${rule.maxLength} characters`
+    );
+  }
+  if (rule.format === "email" && !EMAIL_REGEX.test(value)) {
+    return fail("format", `${field} must be a valid email address`);
+  }
+  if (rule.enum && !rule.enum.includes(value)) {
+    return fail("enum", `${field} must be one of: ${rule.enum.join(", ")}`);
+  }
+
+  return { ok: true, value };
+};
+
+const checkInteger = (
+  field: string,
+  rule: IntegerRule,
+  raw: unknown,
+  coerce: boolean
+): FieldOutcome => {
+  const value =
+    coerce && typeof raw === "string" && INTEGER_REGEX.test(raw)
+      ? Number(raw)
+      : raw;
+
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return fail("type", `${field} must be an integer`);
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    return fail("min", `${field} must be at least ${rule.min}`);
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return fail("max", `${field} must be at most ${rule.max}`);
+  }
+
+  return { ok: true, value };
+};
+
+const checkDate = (field: string, raw: unknown): FieldOutcome => {
+  const value =
+    raw instanceof Date ? raw : typeof raw === "string" ? new Date(raw) : null;
+
+  if (!value || isNaN(value.getTime())) {
+    return fail("type", `${field} must be an ISO 8601 date`);
+  }
+
+  return { ok: true, value };
+};
+
+const checkBoolean = (
+  field: string,
+  raw: unknown,
+  coerce: boolean
+): FieldOutcome => {
+  if (typeof raw === "boolean") {
+    return { ok: true, value: raw };
+  }
+  if (coerce && (raw === "true" || raw === "false")) {
+    return { ok: true, value: raw === "true" };
+  }
+  return fail("type", `${field} must be a boolean`);
+};
+
+const checkObject = (field: string, raw: unknown): FieldOutcome => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return fail("type", `${field} must be an object`);
+  }
+  return { ok: true, value: raw };
+};
+
+const checkArray = (
+  field: string,
+  rule: ArrayRule,
+  raw: unknown,
+  coerce: boolean
+): FieldOutcome => {
+  // Query strings may carry a list as `?ids=1,2,3` as well as `?ids=1&ids=2`
+  const items =
+    coerce && typeof raw === "string"
+      ? raw.split(",").map((item) => item.trim())
+      : raw;
+
+  if (!Array.isArray(items)) {
+    return fail("type", `${field} must be an array`);
+  }
+  if (rule.minItems !== undefined && items.length < rule.minItems) {
+    return fail(
+      "minItems",
+      `${field} must contain at least ${rule.minItems} items`
+    );
+  }
+  if (rule.maxItems !== undefined && items.length > rule.maxItems) {
+    return fail(
+      "maxItems",
+      `${field} must contain at most ${rule.maxItems} items`
+    );
+  }
+
+  const value: unknown[] = [];
+  for (const [index, item] of items.entries()) {
+    const outcome = checkField(`${field}[${index}]`, rule.items, item, coerce);
+    if (!outcome.ok) {
+      return outcome;
+    }
+    value.push(outcome.value);
+  }
+
+  return { ok: true, value };
+};
+
+const checkField = (
+  field: string,
+  rule: AnyRule,
+  raw: unknown,
+  coerce: boolean
+): FieldOutcome => {
+  switch (rule.type) {
+    case "string":
+      return checkString(field, rule, raw);
+    case "integer":
+      return checkInteger(field, rule, raw, coerce);
+    case "date":
+      return checkDate(field, raw);
+    case "boolean":
+      return checkBoolean(field, raw, coerce);
+    case "array":
+      return checkArray(field, rule, raw, coerce);
+    case "object":
+      return checkObject(field, raw);
+  }
+};
+
+/**
+ * Checks an input object against a schema and collects every violation
+ * rather than stopping at the first. Values from params and the query
+ * string arrive as strings and are coerced to the declared type; bodies
+ * are taken as-is, so `{"name": 42}` is a type error rather than a crash.
+ */
+export const validate = <T>(
+  schema: ObjectSchema<T>,
+  input: unknown,
+  location: RequestLocation
+): ValidationResult<T> => {
+  const errors: ValidationError[] = [];
+  const coerce = location !== "body";
+
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return {
+      valid: false,
+      errors: [
+        {
+          location,
+          field: location,
+          rule: "type",
+          message: `${location} must be an object`,
+        },
+      ],
+    };
+  }
+
+  const source = input as Record<string, unknown>;
+  const rules = schema.fields as Record<string, AnyRule>;
+  const value: Record<string, unknown> = {};
+
+  for (const field of Object.keys(source)) {
+    if (!(field in rules)) {
+      errors.push({
+        location,
+        field,
+        rule: "unknown",
+        message: `${field} is not an allowed field`,
+      });
+    }
+  }
+
+  let present = 0;
+
+  for (const [field, rule] of Object.entries(rules)) {
+    const raw = source[field];
+    // Empty query parameters (`?name=`) are treated as absent
+    const missing = raw === undefined || (coerce && raw === "");
+
+    if (missing) {
+      if ("default" in rule && rule.default !== undefined) {
+        value[field] = rule.default;
+      } else if (rule.required) {
+        errors.push({
+          location,
+          field,
+          rule: "required",
+          message: `${field} is required`,
+        });
+      }
+      continue;
+    }
+
+    present++;
+    const outcome = checkField(field, rule, raw, coerce);
+    if (outcome.ok) {
+      value[field] = outcome.value;
+    } else {
+      errors.push({
+        location,
+        field,
+        rule: outcome.rule,
+        message: outcome.message,
+      });
+    }
+  }
+
+  if (schema.minFields !== undefined && present < schema.minFields) {
+    errors.push({
+      location,
+      field: location,
+      rule: "minFields",
+      message: `At least ${schema.minFields} of ${Object.keys(rules).join(
+        ", "
+      )} must be provided`,
+    });
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: value as T };
+};
+
+export const pickFields = <T, K extends keyof T>(
+  schema: ObjectSchema<T>,
+  keys: K[]
+): ObjectSchema<Pick<T, K>> => {
+  const fields = {} as ObjectSchema<Pick<T, K>>["fields"];
+  for (const key of keys) {
+    fields[key] = schema.fields[key] as FieldRule<T[K]>;
+  }
+  return { fields };
+};
+
+// Makes every field optional and requires at least `minFields` of them
+export const partialSchema = <T>(
+  schema: ObjectSchema<T>,
+  minFields: number = 1
+): ObjectSchema<Partial<T>> => {
+  const fields = {} as Record<string, AnyRule>;
+  for (const [key, rule] of Object.entries(schema.fields as object)) {
+    fields[key] = { ...(rule as AnyRule), required: false };
+  }
+  return {
+    fields: fields as ObjectSchema<Partial<T>>["fields"],
+    minFields,
+  };
+};
@@ -4,6 +4,9 @@
 # This script tests all endpoints and features of the API
 
 BASE_URL="http://localhost:3000"
+# Must match the server's ADMIN_API_KEY
+ADMIN_API_KEY="${ADMIN_API_KEY:-test-admin-key}"
+ADMIN_HEADER="X-API-Key: $ADMIN_API_KEY"
 GREEN='\033[0;32m'
 RED='\033[0;31m'
 YELLOW='\033[1;33m'
@@ -20,17 +23,22 @@ test_endpoint() {
     local data=$3
     local expected_status=$4
     local description=$5
+    local header=$6
+    local header_args=()
+    if [ -n "$header" ]; then
+        header_args=(-H "$header")
+    fi
     
     echo -e "${YELLOW}Testing: $description${NC}"
     echo "Endpoint: $method $endpoint"
     
     if [ -n "$data" ]; then
         response=$(curl -s -w "\n%{http_code}" -X $method \
-            -H "Content-Type: application/json" \
+            -H "Content-Type: application/json" "${header_args[@]}" \
             -d "$data" \
             "$BASE_URL$endpoint")
     else
-        response=$(curl -s -w "\n%{http_code}" -X $method "$BASE_URL$endpoint")
+        response=$(curl -s -w "\n%{http_code}" -X $method "${header_args[@]}" "$BASE_URL$endpoint")
     fi
     
     http_code=$(echo "$response" | tail -n1)
@@ -46,6 +54,12 @@ test_endpoint() {
     echo ""
 }
 
+# Give every client its whole rate limit allowance back, so that the
+# sections below are not refused for the requests of the ones above
+reset_rate_limits() {
+    curl -s -o /dev/null -X DELETE -H "$ADMIN_HEADER" "$BASE_URL/api/admin/rate-limits/clients"
+}
+
 # Wait for server to be ready
 echo -e "${YELLOW}⏳ Waiting for server to be ready...${NC}"
 for i in {1..30}; do
@@ -73,15 +87,16 @@ test_endpoint "GET" "/api/users/1" "" "200" "Get User 1 (Second Call - Cache Hit
 
 # Test 4: Get non-existent user
 test_endpoint "GET" "/api/users/999" "" "404" "Get Non-existent User"
+test_endpoint "GET" "/api/users/999" "" "404" "Get Non-existent User Again (cached as not found)"
 
 # Test 5: Cache Status
-test_endpoint "GET" "/api/cache-status" "" "200" "Cache Status"
+test_endpoint "GET" "/api/cache-status" "" "200" "Cache Status" "$ADMIN_HEADER"
 
 # Test 6: Rate Limit Status
-test_endpoint "GET" "/api/rate-limit-status" "" "200" "Rate Limit Status"
+test_endpoint "GET" "/api/rate-limit-status" "" "200" "Rate Limit Status" "$ADMIN_HEADER"
 
 # Test 7: Queue Status
-test_endpoint "GET" "/api/queue-status" "" "200" "Queue Status"
+test_endpoint "GET" "/api/queue-status" "" "200" "Queue Status" "$ADMIN_HEADER"
 
 # Test 8: Create valid user
 test_endpoint "POST" "/api/users" '{"name":"Test User","email":"test@example.com"}' "201" "Create Valid User"
@@ -95,14 +110,49 @@ test_endpoint "POST" "/api/users" '{"name":"Test User"}' "400" "Create User with
 # Test 11: Create user with short name
 test_endpoint "POST" "/api/users" '{"name":"A","email":"test@example.com"}' "400" "Create User with Short Name"
 
+# Test 11b: Create user with wrong types and unknown fields
+test_endpoint "POST" "/api/users" '{"name":42,"email":"test@example.com","role":"admin"}' "400" "Create User with Invalid Field Types"
+
 # Test 12: Delete specific cache entry
-test_endpoint "DELETE" "/api/cache/user:1" "" "200" "Delete Specific Cache Entry"
+test_endpoint "DELETE" "/api/cache/user:1" "" "200" "Delete Specific Cache Entry" "$ADMIN_HEADER"
 
 # Test 13: Delete non-existent cache entry
-test_endpoint "DELETE" "/api/cache/nonexistent" "" "404" "Delete Non-existent Cache Entry"
+test_endpoint "DELETE" "/api/cache/nonexistent" "" "404" "Delete Non-existent Cache Entry" "$ADMIN_HEADER"
+
+# Test 13b: Invalidate cache entries by tag and prefix
+test_endpoint "DELETE" "/api/cache?tag=user" "" "200" "Invalidate Cache Entries by Tag" "$ADMIN_HEADER"
+test_endpoint "DELETE" "/api/cache?prefix=user:" "" "200" "Invalidate Cache Entries by Prefix" "$ADMIN_HEADER"
+
+# Test 13c: Inspect cache keys and hot keys
+test_endpoint "GET" "/api/cache/keys?limit=5" "" "200" "List Cache Keys" "$ADMIN_HEADER"
+test_endpoint "GET" "/api/cache/keys?cursor=invalid" "" "400" "List Cache Keys with Invalid Cursor (should fail)" "$ADMIN_HEADER"
+test_endpoint "GET" "/api/cache/hot-keys?limit=5" "" "200" "Hot Cache Keys" "$ADMIN_HEADER"
+
+# Test 13d: Warm the cache by ID and by popularity
+test_endpoint "POST" "/api/cache/warm" '{"ids":[1,2,3]}' "200" "Warm Cache by User IDs" "$ADMIN_HEADER"
+test_endpoint "POST" "/api/cache/warm" '{"top":10}' "200" "Warm Cache with Most Requested Users" "$ADMIN_HEADER"
+test_endpoint "POST" "/api/cache/warm" '{"ids":[1],"top":10}' "400" "Warm Cache with Both Modes (should fail)" "$ADMIN_HEADER"
+
+# Test 13e: Admin routes require an admin API key
+test_endpoint "GET" "/api/cache-status" "" "401" "Cache Status without API Key (should fail)"
+test_endpoint "DELETE" "/api/cache" "" "401" "Clear Cache without API Key (should fail)"
+test_endpoint "GET" "/api/users/1" "" "401" "Get User with Invalid API Key (should fail)" "X-API-Key: invalid"
+response=$(curl -s -X POST -H "Content-Type: application/json" -H "$ADMIN_HEADER" \
+    -d '{"name":"test-api reader","scopes":["users:read"]}' "$BASE_URL/api/admin/api-keys")
+READER_KEY=$(echo "$response" | jq -r '.data.key')
+test_endpoint "GET" "/api/users/1" "" "200" "Get User with Read-Only API Key" "Authorization: Bearer $READER_KEY"
+test_endpoint "POST" "/api/users" '{"name":"Reader Write","email":"reader@example.com"}' "403" "Create User with Read-Only API Key (should fail)" "Authorization: Bearer $READER_KEY"
+test_endpoint "GET" "/api/admin/api-keys" "" "200" "List API Keys" "$ADMIN_HEADER"
+
+# Test 13f: Rate limit administration
+test_endpoint "GET" "/api/admin/rate-limits/clients/127.0.0.1" "" "200" "Get Client Rate Limit Usage" "$ADMIN_HEADER"
+test_endpoint "POST" "/api/admin/rate-limits/access-lists/block" '{"entry":"192.0.2.0/24"}' "201" "Blocklist a CIDR Range" "$ADMIN_HEADER"
+test_endpoint "POST" "/api/admin/rate-limits/access-lists/allow" '{"entry":"not-an-address"}' "400" "Add Invalid Access List Entry (should fail)" "$ADMIN_HEADER"
+test_endpoint "DELETE" "/api/admin/rate-limits/access-lists/block/192.0.2.0%2F24" "" "200" "Remove Blocklist Entry" "$ADMIN_HEADER"
+test_endpoint "DELETE" "/api/admin/rate-limits/bans/192.0.2.1" "" "404" "Lift Ban of Client Not Banned (should fail)" "$ADMIN_HEADER"
 
 # Test 14: Clear entire cache
-test_endpoint "DELETE" "/api/cache" "" "200" "Clear Entire Cache"
+test_endpoint "DELETE" "/api/cache" "" "200" "Clear Entire Cache" "$ADMIN_HEADER"
 
 # Test 15: Test rate limiting (make multiple rapid requests)
 echo -e "${YELLOW}Testing Rate Limiting...${NC}"
@@ -129,11 +179,70 @@ wait
 echo -e "${GREEN}✅ Concurrent requests completed${NC}"
 echo ""
 
-# Test 17: Final status check
+# Test 17: Update and delete user
+reset_rate_limits
+test_endpoint "PUT" "/api/users/2" '{"name":"Jane Updated","email":"jane.updated@example.com"}' "200" "Replace User"
+test_endpoint "PATCH" "/api/users/2" '{"name":"Jane Patched"}' "200" "Partially Update User"
+test_endpoint "PATCH" "/api/users/2" '{}' "400" "Update User with Empty Body"
+test_endpoint "DELETE" "/api/users/4" "" "200" "Delete User"
+test_endpoint "GET" "/api/users/4" "" "404" "Get Deleted User"
+
+# Test 17b: Email uniqueness
+test_endpoint "POST" "/api/users" '{"name":"Duplicate","email":"JOHN@example.com"}' "409" "Create User with Taken Email"
+test_endpoint "GET" "/api/users/by-email/john@example.com" "" "200" "Get User by Email"
+
+# Test 18: List users
+reset_rate_limits
+test_endpoint "GET" "/api/users?limit=2&sortBy=name&order=desc" "" "200" "List Users (Sorted, Paginated)"
+test_endpoint "GET" "/api/users?name=jo&createdFrom=2023-01-01" "" "200" "List Users (Filtered)"
+test_endpoint "GET" "/api/users?cursor=invalid" "" "400" "List Users with Invalid Cursor"
+
+# Test 18b: Search users
+test_endpoint "GET" "/api/users/search?q=jhon" "" "200" "Search Users (Typo Tolerant)"
+test_endpoint "GET" "/api/users/search" "" "400" "Search Users without Query"
+
+# Test 18c: Export and import
+reset_rate_limits
+test_endpoint "GET" "/api/users/export?format=ndjson" "" "200" "Export Users as NDJSON"
+echo -e "${YELLOW}Testing: Import Users from CSV (Dry Run)${NC}"
+import_code=$(curl -s -o /dev/null -w "%{http_code}" -X POST \
+    -H "Content-Type: text/csv" \
+    --data-binary $'name,email\nImported User,imported@example.com\n' \
+    "$BASE_URL/api/users/import?dryRun=true")
+if [ "$import_code" = "200" ]; then
+    echo -e "${GREEN}✅ PASS${NC} - Status: $import_code"
+else
+    echo -e "${RED}❌ FAIL${NC} - Expected: 200, Got: $import_code"
+fi
+echo ""
+
+# Test 19: Batch get users
+reset_rate_limits
+test_endpoint "GET" "/api/users?ids=1,2,999" "" "200" "Batch Get Users via Query"
+test_endpoint "POST" "/api/users/batch-get" '{"ids":[1,3,5]}' "200" "Batch Get Users via POST"
+
+# Test 20: Bulk create/update
+test_endpoint "POST" "/api/users/bulk" '{"mode":"best-effort","operations":[{"op":"create","data":{"name":"Bulk User","email":"bulk@example.com"}},{"op":"update","id":3,"data":{"name":"Alice Bulk"}}]}' "200" "Bulk Create/Update (Best Effort)"
+test_endpoint "POST" "/api/users/bulk" '{"mode":"atomic","operations":[{"op":"create","data":{"name":"Atomic User","email":"atomic@example.com"}},{"op":"create","data":{"name":"X"}}]}' "400" "Bulk Create with Invalid Item (Atomic)"
+
+# Test 21: Version history, soft delete and restore
+reset_rate_limits
+test_endpoint "GET" "/api/users/2/history" "" "200" "Get User History"
+test_endpoint "POST" "/api/users/4/restore" "" "200" "Restore Soft-Deleted User"
+test_endpoint "POST" "/api/users/4/restore" "" "409" "Restore User That Is Not Deleted"
+test_endpoint "DELETE" "/api/admin/users/5" "" "200" "Purge User" "$ADMIN_HEADER"
+test_endpoint "GET" "/api/users/5/history" "" "404" "Get History of Purged User"
+
+# Test 22: Conditional requests with ETags
+test_endpoint "GET" "/api/users/1" "" "304" "Get User with Matching If-None-Match" 'If-None-Match: "user-1-v1"'
+test_endpoint "PATCH" "/api/users/1" '{"name":"John Stale"}' "412" "Update User with Stale If-Match" 'If-Match: "user-1-v0"'
+test_endpoint "PATCH" "/api/users/1" '{"name":"John Current"}' "200" "Update User with Current If-Match" 'If-Match: "user-1-v1"'
+
+# Test 23: Final status check
 echo -e "${YELLOW}Final System Status:${NC}"
-test_endpoint "GET" "/api/cache-status" "" "200" "Final Cache Status"
-test_endpoint "GET" "/api/queue-status" "" "200" "Final Queue Status"
-test_endpoint "GET" "/api/rate-limit-status" "" "200" "Final Rate Limit Status"
+test_endpoint "GET" "/api/cache-status" "" "200" "Final Cache Status" "$ADMIN_HEADER"
+test_endpoint "GET" "/api/queue-status" "" "200" "Final Queue Status" "$ADMIN_HEADER"
+test_endpoint "GET" "/api/rate-limit-status" "" "200" "Final Rate Limit Status" "$ADMIN_HEADER"
 
 echo -e "${GREEN}🎉 All tests completed!${NC}"
 echo ""
@@ -141,7 +250,11 @@ echo -e "${YELLOW}Test Summary:${NC}"
 echo "- Health check and API info endpoints"
 echo "- User retrieval with caching"
 echo "- User creation with validation"
-echo "- Cache management (clear, delete specific entries)"
-echo "- Rate limiting functionality"
+echo "- Full-text user search"
+echo "- User export and import"
+echo "- Conditional requests (ETag, If-None-Match, If-Match)"
+echo "- Cache management (clear, delete specific entries, warm-up, key inspection)"
+echo "- API key authentication and scopes"
+echo "- Rate limiting functionality and administration (client usage, access lists, bans)"
 echo "- Concurrent request handling"
 echo "- System monitoring endpoints"